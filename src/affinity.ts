@@ -0,0 +1,127 @@
+// src/affinity.ts
+
+import { createHash } from "node:crypto";
+import type { AffinityKey, IncomingInput } from "./types.js";
+
+export const AFFINITY_KEYS = ["channelId", "channel", "session"];
+
+const DEFAULT_MAX_ENTRIES = 10_000;
+// Points per target on the hash ring; more points give each target a more even share
+const RING_REPLICAS = 64;
+
+export interface AffinityEntry {
+	/** Route key the entry belongs to, as used for the route's rate limit */
+	route: string;
+	/** The message's affinity value, e.g. a channel id */
+	value: string;
+	target: string;
+	createdAt: number;
+	lastUsedAt: number;
+	/** When the entry lapses unless used again, or null when it never does */
+	expiresAt: number | null;
+}
+
+// Sticky targets per route and affinity value, least recently used first
+const entries = new Map<string, AffinityEntry>();
+// Hash rings per target list, sorted by point
+const rings = new Map<string, Array<[number, string]>>();
+
+function hashPoint(text: string): number {
+	return createHash("sha1").update(text).digest().readUInt32BE(0);
+}
+
+function getRing(targets: string[]): Array<[number, string]> {
+	const key = targets.join("\0");
+	let ring = rings.get(key);
+	if (!ring) {
+		ring = targets.flatMap((target) =>
+			Array.from({ length: RING_REPLICAS }, (_, i): [number, string] => [hashPoint(`${target}#${i}`), target]),
+		);
+		ring.sort((a, b) => a[0] - b[0]);
+		rings.set(key, ring);
+	}
+	return ring;
+}
+
+/**
+ * The value a message is kept sticky by, or undefined when the message has none (e.g. no channel).
+ */
+export function affinityValue(key: AffinityKey, input: IncomingInput): string | undefined {
+	if (key === "session") return input.session;
+	if (!input.channel) return undefined;
+	return key === "channel" ? `${input.channel.type}:${input.channel.id}` : input.channel.id;
+}
+
+/**
+ * Consistent hash of `value` onto one of `targets`: adding or removing a target only moves the values
+ * that hashed to it.
+ */
+export function hashTarget(value: string, targets: string[]): string {
+	const ring = getRing(targets);
+	const point = hashPoint(value);
+	let low = 0;
+	let high = ring.length;
+	while (low < high) {
+		const mid = (low + high) >> 1;
+		if (ring[mid][0] < point) low = mid + 1;
+		else high = mid;
+	}
+	return ring[low % ring.length][1];
+}
+
+/**
+ * The target for a message with this affinity value: the one it was sent to before while that entry is
+ * live and still among `targets`, otherwise its consistent hash, which is remembered for next time.
+ * Each use pushes the entry's expiry `ttlMs` further out.
+ */
+export function selectAffinityTarget(
+	route: string,
+	value: string,
+	targets: string[],
+	ttlMs?: number,
+	maxEntries = DEFAULT_MAX_ENTRIES,
+	now: number = Date.now(),
+): string {
+	for (const [oldKey, entry] of entries) {
+		if ((entry.expiresAt === null || entry.expiresAt > now) && entries.size <= maxEntries) break;
+		entries.delete(oldKey);
+	}
+	const key = `${route}\0${value}`;
+	const existing = entries.get(key);
+	entries.delete(key);
+	const live = existing && (existing.expiresAt === null || existing.expiresAt > now);
+	const target = live && targets.includes(existing.target) ? existing.target : hashTarget(value, targets);
+	entries.set(key, {
+		route,
+		value,
+		target,
+		createdAt: live && existing.target === target ? existing.createdAt : now,
+		lastUsedAt: now,
+		expiresAt: ttlMs ? now + ttlMs : null,
+	});
+	return target;
+}
+
+/**
+ * Live affinity entries, most recently used first.
+ */
+export function listAffinities(now: number = Date.now()): AffinityEntry[] {
+	return [...entries.values()]
+		.filter((e) => e.expiresAt === null || e.expiresAt > now)
+		.map((e) => ({ ...e }))
+		.reverse();
+}
+
+/**
+ * Forget every affinity entry. Returns how many were removed.
+ */
+export function clearAffinities(): number {
+	const removed = listAffinities().length;
+	entries.clear();
+	return removed;
+}
+
+export function resetAffinities(): void {
+	entries.clear();
+	rings.clear();
+}
@@ -0,0 +1,129 @@
+// src/chunking.ts
+
+import type { ChunkingConfig } from "./types.js";
+
+/**
+ * Maximum message lengths for channel types that have no configured limit.
+ */
+export const DEFAULT_CHANNEL_LIMITS: Readonly<Record<string, number>> = {
+	discord: 2000,
+	telegram: 4096,
+};
+
+/**
+ * Smallest usable limit: it leaves room for a `(1/3)` marker and some text.
+ */
+export const MIN_CHANNEL_LIMIT = 20;
+
+const FENCED_BLOCK = /(```[\s\S]*?```)/g;
+
+function hardSplit(text: string, maxLength: number): string[] {
+	// A step below one character would never get through the text
+	const step = Math.max(1, Math.floor(maxLength));
+	const pieces: string[] = [];
+	for (let i = 0; i < text.length; i += step) pieces.push(text.slice(i, i + step));
+	return pieces;
+}
+
+/**
+ * Greedily join pieces with `separator` into chunks of at most `maxLength`,
+ * breaking pieces that are too long on their own with `breakUp`.
+ */
+function pack(pieces: string[], separator: string, maxLength: number, breakUp: (piece: string) => string[]): string[] {
+	const chunks: string[] = [];
+	let current = "";
+	for (const piece of pieces) {
+		if (piece.length > maxLength) {
+			if (current) chunks.push(current);
+			current = "";
+			chunks.push(...breakUp(piece));
+			continue;
+		}
+		const candidate = current ? current + separator + piece : piece;
+		if (candidate.length <= maxLength) {
+			current = candidate;
+		} else {
+			chunks.push(current);
+			current = piece;
+		}
+	}
+	if (current) chunks.push(current);
+	return chunks;
+}
+
+function splitWords(text: string, maxLength: number): string[] {
+	return pack(text.split(/\s+/).filter(Boolean), " ", maxLength, (word) => hardSplit(word, maxLength));
+}
+
+function splitSentences(paragraph: string, maxLength: number): string[] {
+	return pack(paragraph.split(/(?<=[.!?])\s+/), " ", maxLength, (sentence) => splitWords(sentence, maxLength));
+}
+
+function splitCodeBlock(block: string, maxLength: number): string[] {
+	const firstNewline = block.indexOf("\n");
+	const opening = firstNewline === -1 ? "```" : block.slice(0, firstNewline);
+	const body = firstNewline === -1 ? block.slice(3, -3) : block.slice(firstNewline + 1, -3).replace(/\n$/, "");
+	const budget = maxLength - opening.length - "\n\n```".length;
+	if (budget < 1) return hardSplit(block, maxLength);
+	const parts = pack(body.split("\n"), "\n", budget, (line) => hardSplit(line, budget));
+	return parts.map((part) => `${opening}\n${part}\n\`\`\``);
+}
+
+/**
+ * Split a message into chunks of at most `maxLength` characters. Breaks prefer
+ * paragraph boundaries, then sentence boundaries, then whitespace. Fenced code
+ * blocks are split by line and re-fenced so every chunk renders on its own.
+ */
+export function splitMessage(text: string, maxLength: number): string[] {
+	if (text.length <= maxLength) return [text];
+
+	const blocks: string[] = [];
+	text.split(FENCED_BLOCK).forEach((segment, i) => {
+		if (i % 2 === 1) {
+			blocks.push(segment);
+			return;
+		}
+		for (const paragraph of segment.split(/\n{2,}/)) {
+			if (paragraph.trim()) blocks.push(paragraph.trim());
+		}
+	});
+
+	return pack(blocks, "\n\n", maxLength, (block) =>
+		block.startsWith("```") ? splitCodeBlock(block, maxLength) : splitSentences(block, maxLength),
+	);
+}
+
+function marker(index: number, total: number): string {
+	return `\n(${index}/${total})`;
+}
+
+/**
+ * Split a message and append a `(1/3)` marker to each chunk, keeping chunks
+ * including their marker within `maxLength`. Messages that fit are not numbered.
+ */
+export function splitNumberedMessage(text: string, maxLength: number): string[] {
+	if (text.length <= maxLength) return [text];
+	let reserve = marker(9, 9).length;
+	for (;;) {
+		const chunks = splitMessage(text, maxLength - reserve);
+		const needed = marker(chunks.length, chunks.length).length;
+		if (needed <= reserve) return chunks.map((chunk, i) => chunk + marker(i + 1, chunks.length));
+		reserve = needed;
+	}
+}
+
+function isUsableLimit(limit: unknown): limit is number {
+	return typeof limit === "number" && Number.isInteger(limit) && limit >= MIN_CHANNEL_LIMIT;
+}
+
+/**
+ * Chunk a message for a channel type using the configured limits, falling back to
+ * the built-in limits. Configured limits that are not integers of at least
+ * MIN_CHANNEL_LIMIT are ignored. Channel types without a limit get the message in one piece.
+ */
+export function chunkForChannel(message: string, channelType: string, chunking: ChunkingConfig | undefined): string[] {
+	const configured = chunking?.limits?.[channelType];
+	const limit = isUsableLimit(configured) ? configured : DEFAULT_CHANNEL_LIMITS[channelType];
+	if (!limit) return [message];
+	return chunking?.numbering ? splitNumberedMessage(message, limit) : splitMessage(message, limit);
+}
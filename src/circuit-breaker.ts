@@ -0,0 +1,112 @@
+// src/circuit-breaker.ts
+
+import { matchesPattern } from "./match.js";
+import type { CircuitBreakerConfig } from "./types.js";
+
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_COOLDOWN_MS = 30_000;
+
+/**
+ * - `closed`: deliveries go ahead (normal operation)
+ * - `open`: deliveries are refused until the cooldown has passed
+ * - `half-open`: one trial delivery is let through; its outcome closes or reopens the circuit
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
+interface Circuit {
+	state: CircuitState;
+	/** Consecutive failed deliveries */
+	failures: number;
+	openedAt: number;
+	trialInFlight: boolean;
+}
+
+export interface CircuitStatus {
+	target: string;
+	state: CircuitState;
+	failures: number;
+	/** ISO timestamp of when the circuit last opened */
+	openedAt: string | null;
+	/** ISO timestamp of when an open circuit lets a trial delivery through */
+	retryAt: string | null;
+}
+
+// Circuits by target, e.g. "session:billing" or "channel:discord:123"
+const circuits = new Map<string, Circuit>();
+
+function cooldown(config: CircuitBreakerConfig | undefined): number {
+	return config?.cooldownMs ?? DEFAULT_COOLDOWN_MS;
+}
+
+/**
+ * Whether a delivery to `target` may go ahead. Once an open circuit's cooldown has passed it turns
+ * half-open and lets exactly one trial delivery through, whose outcome must be recorded.
+ */
+export function canDeliver(
+	target: string,
+	config: CircuitBreakerConfig | undefined,
+	now: number = Date.now(),
+): boolean {
+	const circuit = circuits.get(target);
+	if (!circuit || circuit.state === "closed") return true;
+	if (circuit.state === "open" && now - circuit.openedAt >= cooldown(config)) {
+		circuit.state = "half-open";
+	}
+	if (circuit.state !== "half-open" || circuit.trialInFlight) return false;
+	circuit.trialInFlight = true;
+	return true;
+}
+
+export function recordDeliverySuccess(target: string): void {
+	circuits.delete(target);
+}
+
+/**
+ * Count a failed delivery. The circuit opens at the failure threshold, or straight away when a
+ * half-open trial fails. Returns the resulting state.
+ */
+export function recordDeliveryFailure(
+	target: string,
+	config: CircuitBreakerConfig | undefined,
+	now: number = Date.now(),
+): CircuitState {
+	const circuit = circuits.get(target) ?? { state: "closed", failures: 0, openedAt: 0, trialInFlight: false };
+	circuits.set(target, circuit);
+	circuit.failures++;
+	circuit.trialInFlight = false;
+	if (circuit.state === "half-open" || circuit.failures >= (config?.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD)) {
+		circuit.state = "open";
+		circuit.openedAt = now;
+	}
+	return circuit.state;
+}
+
+/**
+ * Every target with recent failures. Targets that are not listed are closed with no failures.
+ */
+export function getCircuitStatuses(config: CircuitBreakerConfig | undefined): CircuitStatus[] {
+	return [...circuits.entries()].map(([target, circuit]) => {
+		const opened = circuit.state !== "closed";
+		return {
+			target,
+			state: circuit.state,
+			failures: circuit.failures,
+			openedAt: opened ? new Date(circuit.openedAt).toISOString() : null,
+			retryAt: circuit.state === "open" ? new Date(circuit.openedAt + cooldown(config)).toISOString() : null,
+		};
+	});
+}
+
+/**
+ * The fallback session configured for a target session, from the first matching pattern.
+ */
+export function resolveFallback(config: CircuitBreakerConfig | undefined, target: string): string | undefined {
+	for (const [pattern, fallback] of Object.entries(config?.fallbacks || {})) {
+		if (matchesPattern(pattern, target)) return fallback;
+	}
+	return undefined;
+}
+
+export function resetCircuits(): void {
+	circuits.clear();
+}
@@ -0,0 +1,44 @@
+// src/concurrency.ts
+
+const background = new Set<Promise<void>>();
+
+/**
+ * Run `worker` over every item with at most `limit` calls in flight at once.
+ * Items start in order; a limit below 1 is treated as 1.
+ */
+export async function runWithConcurrency<T>(
+	items: T[],
+	limit: number,
+	worker: (item: T) => Promise<void>,
+): Promise<void> {
+	let next = 0;
+	const lanes = Array.from({ length: Math.min(Math.max(1, Math.floor(limit) || 1), items.length) }, async () => {
+		while (next < items.length) {
+			const item = items[next++];
+			await worker(item);
+		}
+	});
+	await Promise.all(lanes);
+}
+
+/**
+ * Start a task without waiting for it. Rejections go to `onError`.
+ * Use `waitForBackground` to drain outstanding tasks, e.g. on shutdown.
+ */
+export function runInBackground(task: () => Promise<void>, onError: (err: unknown) => void): void {
+	const promise = task()
+		.catch(onError)
+		.finally(() => {
+			background.delete(promise);
+		});
+	background.add(promise);
+}
+
+/**
+ * Resolve once every background task, including ones started while waiting, has settled.
+ */
+export async function waitForBackground(): Promise<void> {
+	while (background.size > 0) {
+		await Promise.allSettled([...background]);
+	}
+}
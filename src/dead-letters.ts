@@ -0,0 +1,87 @@
+// src/dead-letters.ts
+
+import { randomUUID } from "node:crypto";
+import { createJsonFileStore } from "./json-store.js";
+import type { DeadLetter } from "./types.js";
+
+const FILE_NAME = "dead-letters.json";
+const DEFAULT_MAX_ENTRIES = 1000;
+
+let entries: DeadLetter[] = [];
+const store = createJsonFileStore<DeadLetter>(FILE_NAME);
+
+export type NewDeadLetter = Omit<DeadLetter, "id" | "failedAt" | "lastFailedAt" | "replays">;
+
+function persist(): Promise<void> {
+	return store.save(entries);
+}
+
+/**
+ * Load the dead letters stored in `dir` and persist later changes there.
+ * A missing file means an empty store; an unreadable one throws and leaves the store empty.
+ */
+export async function loadDeadLetters(dir: string): Promise<void> {
+	entries = [];
+	entries = await store.load(dir);
+}
+
+/**
+ * Store a failed delivery, discarding the oldest entries beyond `maxEntries`.
+ */
+export async function addDeadLetter(
+	letter: NewDeadLetter,
+	maxEntries = DEFAULT_MAX_ENTRIES,
+	now: Date = new Date(),
+): Promise<DeadLetter> {
+	const entry: DeadLetter = {
+		...letter,
+		id: randomUUID(),
+		failedAt: now.toISOString(),
+		lastFailedAt: now.toISOString(),
+		replays: 0,
+	};
+	entries.push(entry);
+	if (entries.length > maxEntries) entries.splice(0, entries.length - Math.max(1, maxEntries));
+	await persist();
+	return entry;
+}
+
+export function listDeadLetters(): DeadLetter[] {
+	return entries.map((entry) => ({ ...entry }));
+}
+
+export function getDeadLetter(id: string): DeadLetter | undefined {
+	const entry = entries.find((e) => e.id === id);
+	return entry ? { ...entry } : undefined;
+}
+
+/**
+ * Record a failed replay: the entry stays in the store with the new error.
+ */
+export async function recordReplayFailure(id: string, error: string, now: Date = new Date()): Promise<void> {
+	const entry = entries.find((e) => e.id === id);
+	if (!entry) return;
+	entry.error = error;
+	entry.lastFailedAt = now.toISOString();
+	entry.replays++;
+	await persist();
+}
+
+/**
+ * Remove the given entries, or every entry when `ids` is omitted. Returns how many were removed.
+ */
+export async function removeDeadLetters(ids?: string[]): Promise<number> {
+	const before = entries.length;
+	entries = ids ? entries.filter((e) => !ids.includes(e.id)) : [];
+	const removed = before - entries.length;
+	if (removed > 0) await persist();
+	return removed;
+}
+
+/**
+ * Wait for outstanding writes, then forget the in-memory store.
+ */
+export async function closeDeadLetters(): Promise<void> {
+	await store.close();
+	entries = [];
+}
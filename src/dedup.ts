@@ -0,0 +1,48 @@
+// src/dedup.ts
+
+import { createHash } from "node:crypto";
+
+const DEFAULT_MAX_ENTRIES = 10_000;
+
+// Delivery keys seen recently, oldest first, with the time each one expires
+const seen = new Map<string, number>();
+
+/**
+ * Identify a delivery by source, target and either the adapter's message id or the message text
+ * with whitespace normalized.
+ */
+export function dedupKey(source: string, target: string, message: string, messageId?: string): string {
+	const body = messageId ? `id:${messageId}` : `text:${message.normalize("NFC").trim().replace(/\s+/g, " ")}`;
+	return createHash("sha256").update(`${source}\0${target}\0${body}`).digest("hex");
+}
+
+/**
+ * True when the key was seen within the last `windowMs`. Otherwise records it and returns false.
+ */
+export function isDuplicate(
+	key: string,
+	windowMs: number,
+	maxEntries = DEFAULT_MAX_ENTRIES,
+	now: number = Date.now(),
+): boolean {
+	for (const [oldKey, expiresAt] of seen) {
+		if (expiresAt > now && seen.size <= maxEntries) break;
+		seen.delete(oldKey);
+	}
+	const expiresAt = seen.get(key);
+	if (expiresAt !== undefined && expiresAt > now) return true;
+	seen.delete(key);
+	seen.set(key, now + windowMs);
+	return false;
+}
+
+/**
+ * Forget a key so the same delivery may be attempted again, e.g. after it failed.
+ */
+export function forgetKey(key: string): void {
+	seen.delete(key);
+}
+
+export function resetDedup(): void {
+	seen.clear();
+}
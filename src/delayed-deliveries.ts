@@ -0,0 +1,146 @@
+// src/delayed-deliveries.ts
+
+import { randomUUID } from "node:crypto";
+import { createJsonFileStore } from "./json-store.js";
+import type { DelayedDelivery } from "./types.js";
+
+const FILE_NAME = "delayed-deliveries.json";
+// setTimeout fires immediately for longer delays, so far-off deliveries are waited for in steps
+const MAX_TIMER_MS = 2_147_483_647;
+
+let entries: DelayedDelivery[] = [];
+const store = createJsonFileStore<DelayedDelivery>(FILE_NAME);
+let timer: ReturnType<typeof setTimeout> | null = null;
+let deliver: ((entry: DelayedDelivery) => void) | null = null;
+// Entries handed to `deliver` that have not been removed yet
+const inFlight = new Set<string>();
+
+export type NewDelayedDelivery = Omit<DelayedDelivery, "id" | "queuedAt" | "dueAt">;
+
+function persist(): Promise<void> {
+	return store.save(entries);
+}
+
+function scheduleNext(): void {
+	if (timer) clearTimeout(timer);
+	timer = null;
+	if (!deliver) return;
+	let next: number | undefined;
+	for (const entry of entries) {
+		const dueAt = Date.parse(entry.dueAt);
+		if (!inFlight.has(entry.id) && (next === undefined || dueAt < next)) next = dueAt;
+	}
+	if (next === undefined) return;
+	timer = setTimeout(releaseDue, Math.min(MAX_TIMER_MS, Math.max(0, next - Date.now())));
+}
+
+function releaseDue(): void {
+	timer = null;
+	const now = Date.now();
+	for (const entry of entries) {
+		if (!deliver || inFlight.has(entry.id) || Date.parse(entry.dueAt) > now) continue;
+		inFlight.add(entry.id);
+		deliver({ ...entry });
+	}
+	scheduleNext();
+}
+
+/**
+ * Load the delayed deliveries stored in `dir` and persist later changes there.
+ * A missing file means an empty store; an unreadable one throws and leaves the store empty.
+ */
+export async function loadDelayedDeliveries(dir: string): Promise<void> {
+	entries = [];
+	entries = await store.load(dir);
+}
+
+/**
+ * Hand each entry to `deliver` once it is due, starting with any that fell due while the plugin was stopped.
+ * `deliver` must call `removeDelayedDeliveries` with the entry's id when it is done with it.
+ */
+export function startDelayedDeliveries(callback: (entry: DelayedDelivery) => void): void {
+	deliver = callback;
+	scheduleNext();
+}
+
+/**
+ * Stop handing out entries. Entries already handed out stay in the store until they are removed.
+ */
+export function stopDelayedDeliveries(): void {
+	deliver = null;
+	scheduleNext();
+}
+
+/**
+ * Store a delivery until `dueAt`.
+ */
+export async function addDelayedDelivery(
+	delivery: NewDelayedDelivery,
+	dueAt: Date,
+	now: Date = new Date(),
+): Promise<DelayedDelivery> {
+	const entry: DelayedDelivery = {
+		...delivery,
+		id: randomUUID(),
+		queuedAt: now.toISOString(),
+		dueAt: dueAt.toISOString(),
+	};
+	entries.push(entry);
+	scheduleNext();
+	await persist();
+	return entry;
+}
+
+/**
+ * Entries in the order they fall due.
+ */
+export function listDelayedDeliveries(): DelayedDelivery[] {
+	return entries.map((entry) => ({ ...entry })).sort((a, b) => Date.parse(a.dueAt) - Date.parse(b.dueAt));
+}
+
+export function getDelayedDelivery(id: string): DelayedDelivery | undefined {
+	const entry = entries.find((e) => e.id === id);
+	return entry ? { ...entry } : undefined;
+}
+
+/**
+ * Whether the entry has been handed to `deliver` and not removed yet.
+ */
+export function isDelayedDeliveryInFlight(id: string): boolean {
+	return inFlight.has(id);
+}
+
+/**
+ * Remove the given entries, or every entry when `ids` is omitted, including entries that are being
+ * delivered. Returns how many were removed.
+ */
+export async function removeDelayedDeliveries(ids?: string[]): Promise<number> {
+	const before = entries.length;
+	entries = ids ? entries.filter((e) => !ids.includes(e.id)) : [];
+	for (const id of ids ?? [...inFlight]) inFlight.delete(id);
+	const removed = before - entries.length;
+	if (removed > 0) {
+		scheduleNext();
+		await persist();
+	}
+	return removed;
+}
+
+/**
+ * Cancel the given entries, or every entry when `ids` is omitted, so they are not delivered. Entries that
+ * are already being delivered are left alone. Returns how many were cancelled.
+ */
+export function cancelDelayedDeliveries(ids?: string[]): Promise<number> {
+	const cancelled = entries.filter((e) => !inFlight.has(e.id) && (!ids || ids.includes(e.id)));
+	return removeDelayedDeliveries(cancelled.map((e) => e.id));
+}
+
+/**
+ * Stop handing out entries, wait for outstanding writes, then forget the in-memory store.
+ */
+export async function closeDelayedDeliveries(): Promise<void> {
+	stopDelayedDeliveries();
+	await store.close();
+	entries = [];
+	inFlight.clear();
+}
@@ -0,0 +1,125 @@
+// src/digest.ts
+
+import { renderTemplate, validateTemplate } from "./template.js";
+import type { DigestConfig } from "./types.js";
+
+const DEFAULT_WINDOW_MS = 60_000;
+const DEFAULT_MAX_MESSAGES = 50;
+const DEFAULT_HEADER = "Digest from {{session}} ({{count}} messages)";
+const DEFAULT_FORMAT = "- {{message}}";
+
+export const DIGEST_HEADER_PLACEHOLDERS = ["count", "session", "route", "start", "end"];
+
+/**
+ * A message held for a digest, after the route's transforms.
+ */
+export interface DigestItem {
+	message: string;
+	session: string;
+	channel?: { type: string; id: string };
+	receivedAt: number;
+	/** Sessions the message passed through, for loop detection when the digest is delivered */
+	path: string[];
+}
+
+interface Batch {
+	items: DigestItem[];
+	timer: ReturnType<typeof setTimeout> | null;
+	deliver: (items: DigestItem[]) => void;
+}
+
+// Pending batches by digest key, e.g. a route and source session
+const batches = new Map<string, Batch>();
+
+function take(key: string): void {
+	const batch = batches.get(key);
+	if (!batch) return;
+	batches.delete(key);
+	if (batch.timer) clearTimeout(batch.timer);
+	batch.deliver(batch.items);
+}
+
+/**
+ * Hold an item for the digest under `key`. The digest is handed to `deliver` once it holds
+ * `maxMessages` items or `windowMs` after its first item, whichever comes first.
+ */
+export function addToDigest(
+	key: string,
+	item: DigestItem,
+	config: DigestConfig,
+	deliver: (items: DigestItem[]) => void,
+): void {
+	let batch = batches.get(key);
+	if (!batch) {
+		batch = { items: [], timer: null, deliver };
+		batches.set(key, batch);
+		batch.timer = setTimeout(() => take(key), config.windowMs ?? DEFAULT_WINDOW_MS);
+	}
+	batch.items.push(item);
+	if (batch.items.length >= (config.maxMessages ?? DEFAULT_MAX_MESSAGES)) take(key);
+}
+
+/**
+ * Hand every pending digest to its `deliver` callback now, e.g. on shutdown. Returns how many there were.
+ */
+export function flushDigests(): number {
+	const keys = [...batches.keys()];
+	for (const key of keys) take(key);
+	return keys.length;
+}
+
+/**
+ * Combine items into one message: the header, then one formatted line per item.
+ */
+export function renderDigest(items: DigestItem[], config: DigestConfig, route?: string): string {
+	const header = renderTemplate(
+		config.header ?? DEFAULT_HEADER,
+		{
+			count: String(items.length),
+			session: items[0]?.session,
+			route,
+			start: items.length > 0 ? new Date(items[0].receivedAt).toISOString() : undefined,
+			end: items.length > 0 ? new Date(items[items.length - 1].receivedAt).toISOString() : undefined,
+		},
+		DIGEST_HEADER_PLACEHOLDERS,
+	);
+	const lines = items.map((item) =>
+		renderTemplate(config.format ?? DEFAULT_FORMAT, {
+			message: item.message,
+			session: item.session,
+			"channel.type": item.channel?.type,
+			"channel.id": item.channel?.id,
+			timestamp: new Date(item.receivedAt).toISOString(),
+			route,
+		}),
+	);
+	return [header, ...lines].filter(Boolean).join("\n");
+}
+
+/**
+ * Returns human-readable problems with a digest config; an empty list means it is valid.
+ */
+export function validateDigest(config: DigestConfig): string[] {
+	const problems: string[] = [];
+	for (const field of ["windowMs", "maxMessages"] as const) {
+		const value = config[field];
+		if (value !== undefined && (typeof value !== "number" || !Number.isInteger(value) || value < 1)) {
+			problems.push(`${field} must be a positive integer`);
+		}
+	}
+	for (const [field, placeholders] of [
+		["header", DIGEST_HEADER_PLACEHOLDERS],
+		["format", undefined],
+	] as const) {
+		const template = config[field];
+		if (template === undefined) continue;
+		if (typeof template !== "string") {
+			problems.push(`${field} must be a string`);
+			continue;
+		}
+		for (const problem of validateTemplate(template, placeholders)) {
+			problems.push(`${field} has ${problem}`);
+		}
+	}
+	return problems;
+}
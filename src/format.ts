@@ -0,0 +1,81 @@
+// src/format.ts
+
+import type { FormatProfile } from "./types.js";
+
+export const FORMAT_PROFILES: ReadonlyArray<FormatProfile> = ["markdown", "slack", "plain"];
+
+/**
+ * Profiles used for channel types that have no `channelFormats` entry in the config.
+ */
+export const DEFAULT_CHANNEL_FORMATS: Readonly<Record<string, FormatProfile>> = {
+	slack: "slack",
+	sms: "plain",
+};
+
+const FENCE = /```[^\n]*\n?([\s\S]*?)```/g;
+const INLINE_CODE = /`([^`\n]+)`/g;
+
+/**
+ * Run `convert` on the parts of a Markdown message outside code, leaving fenced
+ * blocks and inline code to `code`.
+ */
+function outsideCode(text: string, convert: (prose: string) => string, code: (block: string) => string): string {
+	const segments = text.split(/(```[\s\S]*?```|`[^`\n]+`)/g);
+	return segments.map((segment, i) => (i % 2 === 1 ? code(segment) : convert(segment))).join("");
+}
+
+function toSlack(prose: string): string {
+	const BOLD = "\u0000";
+	return prose
+		.replace(/!\[([^\]]*)\]\(([^)\s]+)\)/g, "<$2|$1>")
+		.replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, "<$2|$1>")
+		.replace(/^#{1,6}\s+(.+?)\s*#*$/gm, `${BOLD}$1${BOLD}`)
+		.replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, `${BOLD}$2${BOLD}`)
+		.replace(/(?<![*\w])\*(?=\S)([^*\n]*?\S)\*(?![*\w])/g, "_$1_")
+		.replace(/~~(?=\S)([\s\S]*?\S)~~/g, "~$1~")
+		.replace(/^(\s*)[-*+]\s+/gm, "$1• ")
+		.replaceAll(BOLD, "*");
+}
+
+function toPlain(prose: string): string {
+	return prose
+		.replace(/!\[([^\]]*)\]\(([^)\s]+)\)/g, "$1 ($2)")
+		.replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, "$1 ($2)")
+		.replace(/^#{1,6}\s+(.+?)\s*#*$/gm, "$1")
+		.replace(/^>\s?/gm, "")
+		.replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, "$2")
+		.replace(/(?<![*\w])[*_](?=\S)([^*_\n]*?\S)[*_](?![*\w])/g, "$1")
+		.replace(/~~(?=\S)([\s\S]*?\S)~~/g, "$1")
+		.replace(/^(\s*)[*+]\s+/gm, "$1- ");
+}
+
+function stripCode(code: string): string {
+	return code.replace(FENCE, (_block, body: string) => body.replace(/\n$/, "")).replace(INLINE_CODE, "$1");
+}
+
+/**
+ * Render a Markdown message for a channel's format profile. `markdown` leaves it unchanged;
+ * `slack` converts to Slack mrkdwn; `plain` strips formatting. Code is never reformatted.
+ */
+export function formatForChannel(text: string, profile: FormatProfile): string {
+	switch (profile) {
+		case "slack":
+			return outsideCode(text, toSlack, (code) => code);
+		case "plain":
+			return outsideCode(text, toPlain, stripCode);
+		default:
+			return text;
+	}
+}
+
+/**
+ * Pick the format profile for a channel type: the route's `format`, then the
+ * config's `channelFormats`, then the built-in defaults, then `markdown`.
+ */
+export function resolveFormatProfile(
+	channelType: string,
+	routeFormat: FormatProfile | undefined,
+	channelFormats: Record<string, FormatProfile> | undefined,
+): FormatProfile {
+	return routeFormat ?? channelFormats?.[channelType] ?? DEFAULT_CHANNEL_FORMATS[channelType] ?? "markdown";
+}
@@ -0,0 +1,110 @@
+// src/gather.ts
+
+import { renderTemplate, validateTemplate } from "./template.js";
+import type { GatherConfig } from "./types.js";
+
+export const GATHER_MERGES = ["concat", "first", "aggregate"];
+export const GATHER_REPLY_PLACEHOLDERS = ["session", "message", "route"];
+export const GATHER_PROMPT_PLACEHOLDERS = ["message", "replies", "route"];
+
+export const DEFAULT_GATHER_TIMEOUT_MS = 30_000;
+const DEFAULT_FORMAT = "**{{session}}**\n{{message}}";
+const DEFAULT_PROMPT = 'Combine these replies to "{{message}}" into one answer:\n\n{{replies}}';
+
+export interface GatherReply {
+	session: string;
+	message: string;
+}
+
+/**
+ * A reply that is on its way from a session.
+ */
+export interface PendingReply {
+	session: string;
+	/** The reply, or null when the session gave none */
+	reply: Promise<string | null>;
+}
+
+/**
+ * Wait for the replies: all of them, or with `firstOnly` just the first one to arrive. Replies that never
+ * came are left out.
+ */
+export async function awaitReplies(pending: PendingReply[], firstOnly = false): Promise<GatherReply[]> {
+	if (!firstOnly) {
+		const replies = await Promise.all(pending.map(async (p) => ({ session: p.session, message: await p.reply })));
+		return replies.filter((r): r is GatherReply => r.message !== null);
+	}
+	const first = await new Promise<GatherReply | null>((resolve) => {
+		let left = pending.length;
+		if (left === 0) resolve(null);
+		for (const p of pending) {
+			void p.reply.then((message) => {
+				if (message !== null) resolve({ session: p.session, message });
+				else if (--left === 0) resolve(null);
+			});
+		}
+	});
+	return first ? [first] : [];
+}
+
+/**
+ * Lay the replies out one after another, each with its session as a header.
+ */
+export function renderReplies(replies: GatherReply[], config: GatherConfig, route?: string): string {
+	return replies
+		.map((reply) =>
+			renderTemplate(
+				config.format ?? DEFAULT_FORMAT,
+				{ session: reply.session, message: reply.message, route },
+				GATHER_REPLY_PLACEHOLDERS,
+			),
+		)
+		.join("\n\n");
+}
+
+/**
+ * What the aggregator session is asked to merge: the original message and the replies laid out as for `concat`.
+ */
+export function renderAggregatorPrompt(
+	message: string,
+	replies: GatherReply[],
+	config: GatherConfig,
+	route?: string,
+): string {
+	return renderTemplate(
+		config.prompt ?? DEFAULT_PROMPT,
+		{ message, replies: renderReplies(replies, config, route), route },
+		GATHER_PROMPT_PLACEHOLDERS,
+	);
+}
+
+/**
+ * Returns human-readable problems with a scatter-gather config; an empty list means it is valid.
+ */
+export function validateGather(config: GatherConfig): string[] {
+	const problems: string[] = [];
+	if (config.timeoutMs !== undefined && (typeof config.timeoutMs !== "number" || !(config.timeoutMs > 0))) {
+		problems.push("timeoutMs must be a positive number");
+	}
+	if (config.merge !== undefined && !GATHER_MERGES.includes(config.merge)) {
+		problems.push(`merge must be one of ${GATHER_MERGES.join(", ")}`);
+	}
+	if (config.merge === "aggregate" && (typeof config.aggregator !== "string" || !config.aggregator)) {
+		problems.push('aggregator must be a session name when merge is "aggregate"');
+	}
+	for (const [field, placeholders] of [
+		["format", GATHER_REPLY_PLACEHOLDERS],
+		["prompt", GATHER_PROMPT_PLACEHOLDERS],
+	] as const) {
+		const template = config[field];
+		if (template === undefined) continue;
+		if (typeof template !== "string") {
+			problems.push(`${field} must be a string`);
+			continue;
+		}
+		for (const problem of validateTemplate(template, placeholders)) {
+			problems.push(`${field} has ${problem}`);
+		}
+	}
+	return problems;
+}
@@ -7,53 +7,118 @@
 import { createReadStream } from "node:fs";
 import http, { type IncomingMessage, type Server, type ServerResponse } from "node:http";
 import { extname, join } from "node:path";
-import type { ConfigSchema, WOPRPluginContext, WOPRPlugin as WOPRPluginInterface } from "@wopr-network/plugin-types";
+import type {
+	A2AToolResult,
+	ChannelAdapter,
+	ConfigSchema,
+	WOPRPluginContext,
+	WOPRPlugin as WOPRPluginInterface,
+} from "@wopr-network/plugin-types";
+import { affinityValue, clearAffinities, listAffinities, resetAffinities, selectAffinityTarget } from "./affinity.js";
+import { chunkForChannel } from "./chunking.js";
+import {
+	canDeliver,
+	getCircuitStatuses,
+	recordDeliveryFailure,
+	recordDeliverySuccess,
+	resetCircuits,
+	resolveFallback,
+} from "./circuit-breaker.js";
+import { runInBackground, runWithConcurrency, waitForBackground } from "./concurrency.js";
+import {
+	addDeadLetter,
+	closeDeadLetters,
+	getDeadLetter,
+	listDeadLetters,
+	loadDeadLetters,
+	type NewDeadLetter,
+	recordReplayFailure,
+	removeDeadLetters,
+} from "./dead-letters.js";
+import { dedupKey, forgetKey, isDuplicate, resetDedup } from "./dedup.js";
+import {
+	addDelayedDelivery,
+	cancelDelayedDeliveries,
+	closeDelayedDeliveries,
+	getDelayedDelivery,
+	isDelayedDeliveryInFlight,
+	listDelayedDeliveries,
+	loadDelayedDeliveries,
+	type NewDelayedDelivery,
+	removeDelayedDeliveries,
+	startDelayedDeliveries,
+	stopDelayedDeliveries,
+} from "./delayed-deliveries.js";
+import { addToDigest, type DigestItem, flushDigests, renderDigest } from "./digest.js";
+import { formatForChannel, resolveFormatProfile } from "./format.js";
+import {
+	awaitReplies,
+	DEFAULT_GATHER_TIMEOUT_MS,
+	type PendingReply,
+	renderAggregatorPrompt,
+	renderReplies,
+} from "./gather.js";
+import { recordInjection, resetLoopTracking, takeInjectionPath } from "./loops.js";
+import { matchesExpression, matchesFields, matchesPattern, selectRoutes } from "./match.js";
+import { acquireToken, resetRateLimits, resolveLimit } from "./rate-limit.js";
+import { withRetry } from "./retry.js";
+import { isScheduleActive, nextWindowStart, resolveScheduledTargets } from "./schedule.js";
 import {
 	getStats,
+	incrementCircuitRejected,
+	incrementDeliveriesDelayed,
+	incrementDigestsDelivered,
+	incrementDuplicatesSuppressed,
 	incrementErrors,
+	incrementFailovers,
+	incrementGathersCompleted,
+	incrementGatherTimeouts,
+	incrementLoopsRejected,
+	incrementMessagesDigested,
 	incrementOutgoingRouted,
+	incrementRetries,
+	incrementRetryExhausted,
+	incrementRetrySucceeded,
 	incrementRouted,
+	incrementTimeouts,
+	recordRateLimitOverflow,
 	recordRouteHit,
+	recordStrategySelection,
 	resetStats,
 } from "./stats.js";
-import { buildListRoutesResponse, buildRouterStatusResponse, buildRoutingStatsResponse } from "./webmcp-tools.js";
-
-// Plugin-specific types (not in @wopr-network/plugin-types)
-interface Route {
-	sourceSession?: string;
-	targetSessions?: string[];
-	channelType?: string;
-	channelId?: string;
-}
-
-interface OutgoingRoute {
-	sourceSession?: string;
-	channelType?: string;
-	channelId?: string;
-}
-
-interface RouterConfig {
-	uiPort?: number;
-	routes?: Route[];
-	outgoingRoutes?: OutgoingRoute[];
-}
-
-interface IncomingInput {
-	session: string;
-	channel?: { type: string; id: string };
-	message: string;
-}
-
-interface OutgoingOutput {
-	session: string;
-	response: string;
-}
+import { resetStrategies, selectTargets } from "./strategy.js";
+import { renderTemplate } from "./template.js";
+import { DeliveryTimeoutError, withTimeout } from "./timeout.js";
+import { applyTransforms } from "./transforms.js";
+import type {
+	CircuitBreakerConfig,
+	DelayedDelivery,
+	DigestConfig,
+	GatherConfig,
+	IncomingInput,
+	OutgoingOutput,
+	OutgoingRoute,
+	RateLimit,
+	RetryPolicy,
+	Route,
+	RouterConfig,
+} from "./types.js";
+import { routerConfigWarnings, validateRouterConfig } from "./validate.js";
+import {
+	buildAffinityResponse,
+	buildDeadLettersResponse,
+	buildDelayedDeliveriesResponse,
+	buildListRoutesResponse,
+	buildRouterStatusResponse,
+	buildRoutingStatsResponse,
+} from "./webmcp-tools.js";
 
-// Extended context with middleware registration (router-specific capability)
+// Extended context with middleware registration (router-specific capability).
+// Returning null from onIncoming stops the message from reaching its session.
 interface RouterPluginContext extends WOPRPluginContext {
 	registerMiddleware(middleware: {
 		name: string;
-		onIncoming?(input: IncomingInput): Promise<string>;
+		onIncoming?(input: IncomingInput): Promise<string | null>;
 		onOutgoing?(output: OutgoingOutput): Promise<string>;
 	}): void;
 	unregisterMiddleware?(name: string): void;
@@ -69,6 +134,117 @@ let ctx: RouterPluginContext | null = null;
 let uiServer: Server | null = null;
 const cleanups: Array<() => void> = [];
 
+// Endpoints that return message payloads or change state are not opened to other origins, and only answer
+// requests that carry this header. A page on another origin cannot add it without a CORS preflight, which
+// these endpoints never grant.
+const API_HEADER = "x-wopr-router";
+
+// Answers 403 and returns false when the request lacks the API header
+function checkApiHeader(req: IncomingMessage, res: ServerResponse): boolean {
+	if (req.headers[API_HEADER] !== undefined) return true;
+	res.statusCode = 403;
+	res.end(JSON.stringify({ error: "Missing X-WOPR-Router header" }));
+	return false;
+}
+
+const DEAD_LETTERS_PATH = "/api/webmcp/dead-letters";
+
+// GET lists or inspects, DELETE purges, POST <id>/replay delivers again
+async function handleDeadLetterRequest(req: IncomingMessage, res: ServerResponse, path: string): Promise<void> {
+	res.setHeader("Content-Type", "application/json");
+	if (!checkApiHeader(req, res)) return;
+	const send = (status: number, body: unknown): void => {
+		res.statusCode = status;
+		res.end(JSON.stringify(body));
+	};
+	const [id, action, ...rest] = path.slice(DEAD_LETTERS_PATH.length).split("/").filter(Boolean);
+	const method = req.method || "GET";
+	try {
+		if (rest.length > 0 || (action !== undefined && action !== "replay")) {
+			send(404, { error: "Not found" });
+		} else if (id === undefined) {
+			if (method === "GET") send(200, buildDeadLettersResponse(listDeadLetters()));
+			else if (method === "DELETE") send(200, { purged: await removeDeadLetters() });
+			else send(405, { error: "Method not allowed" });
+		} else if (action === "replay") {
+			if (method !== "POST") send(405, { error: "Method not allowed" });
+			else {
+				const result = await replayDeadLetter(id);
+				if (result) send(result.replayed ? 200 : 502, result);
+				else send(404, { error: "Dead letter not found" });
+			}
+		} else if (method === "GET") {
+			const entry = getDeadLetter(id);
+			if (entry) send(200, entry);
+			else send(404, { error: "Dead letter not found" });
+		} else if (method === "DELETE") {
+			if (await removeDeadLetters([id])) send(200, { purged: 1 });
+			else send(404, { error: "Dead letter not found" });
+		} else {
+			send(405, { error: "Method not allowed" });
+		}
+	} catch (_error: unknown) {
+		send(500, { error: "Internal server error" });
+	}
+}
+
+const DELAYED_PATH = "/api/webmcp/delayed";
+
+// GET lists or inspects held deliveries, DELETE cancels them
+async function handleDelayedRequest(req: IncomingMessage, res: ServerResponse, path: string): Promise<void> {
+	res.setHeader("Content-Type", "application/json");
+	if (!checkApiHeader(req, res)) return;
+	const send = (status: number, body: unknown): void => {
+		res.statusCode = status;
+		res.end(JSON.stringify(body));
+	};
+	const [id, ...rest] = path.slice(DELAYED_PATH.length).split("/").filter(Boolean);
+	const method = req.method || "GET";
+	try {
+		if (rest.length > 0) {
+			send(404, { error: "Not found" });
+		} else if (id === undefined) {
+			if (method === "GET") send(200, buildDelayedDeliveriesResponse(listDelayedDeliveries()));
+			else if (method === "DELETE") send(200, { cancelled: await cancelDelayedDeliveries() });
+			else send(405, { error: "Method not allowed" });
+		} else if (method === "GET") {
+			const entry = getDelayedDelivery(id);
+			if (entry) send(200, entry);
+			else send(404, { error: "Delayed delivery not found" });
+		} else if (method === "DELETE") {
+			if (isDelayedDeliveryInFlight(id)) send(409, { error: "Delayed delivery is already being delivered" });
+			else if (await cancelDelayedDeliveries([id])) send(200, { cancelled: 1 });
+			else send(404, { error: "Delayed delivery not found" });
+		} else {
+			send(405, { error: "Method not allowed" });
+		}
+	} catch (_error: unknown) {
+		send(500, { error: "Internal server error" });
+	}
+}
+
+const AFFINITY_PATH = "/api/webmcp/affinity";
+
+// GET lists sticky targets, DELETE forgets them
+function handleAffinityRequest(req: IncomingMessage, res: ServerResponse): void {
+	res.setHeader("Content-Type", "application/json");
+	if (!checkApiHeader(req, res)) return;
+	const method = req.method || "GET";
+	try {
+		if (method === "GET") {
+			res.end(JSON.stringify(buildAffinityResponse(listAffinities())));
+		} else if (method === "DELETE") {
+			res.end(JSON.stringify({ cleared: clearAffinities() }));
+		} else {
+			res.statusCode = 405;
+			res.end(JSON.stringify({ error: "Method not allowed" }));
+		}
+	} catch (_error: unknown) {
+		res.statusCode = 500;
+		res.end(JSON.stringify({ error: "Internal server error" }));
+	}
+}
+
 function startUIServer(port: number = 7333): Server {
 	const server = http.createServer((req: IncomingMessage, res: ServerResponse) => {
 		const rawUrl = req.url || "/";
@@ -82,7 +258,11 @@ function startUIServer(port: number = 7333): Server {
 					routes: [],
 					outgoingRoutes: [],
 				};
-				res.end(JSON.stringify(buildRouterStatusResponse(config, uiServer !== null)));
+				res.end(
+					JSON.stringify(
+						buildRouterStatusResponse(config, uiServer !== null, getCircuitStatuses(config.circuitBreaker)),
+					),
+				);
 			} catch (_error: unknown) {
 				res.statusCode = 500;
 				res.end(JSON.stringify({ error: "Internal server error" }));
@@ -116,6 +296,20 @@ function startUIServer(port: number = 7333): Server {
 			return;
 		}
 
+		const path = rawUrl.split("?")[0];
+		if (path === DEAD_LETTERS_PATH || path.startsWith(`${DEAD_LETTERS_PATH}/`)) {
+			void handleDeadLetterRequest(req, res, path);
+			return;
+		}
+		if (path === DELAYED_PATH || path.startsWith(`${DELAYED_PATH}/`)) {
+			void handleDelayedRequest(req, res, path);
+			return;
+		}
+		if (path === AFFINITY_PATH) {
+			handleAffinityRequest(req, res);
+			return;
+		}
+
 		// Existing static file serving logic
 		if (!ctx) {
 			res.statusCode = 503;
@@ -161,49 +355,708 @@ function startUIServer(port: number = 7333): Server {
 	return server;
 }
 
-export function matchesRoute(route: Route, input: IncomingInput): boolean {
-	if (route.sourceSession && route.sourceSession !== input.session) return false;
-	if (route.channelType && route.channelType !== input.channel?.type) return false;
-	if (route.channelId && route.channelId !== input.channel?.id) return false;
+export function matchesRoute(route: Route | OutgoingRoute, input: IncomingInput): boolean {
+	if (!matchesFields(route, input)) return false;
+	if (route.match && !matchesExpression(route.match, input)) return false;
+	// Outside its window a scheduled route only matches if it has somewhere else to send messages or holds them
+	if (
+		"schedule" in route &&
+		route.schedule &&
+		!route.schedule.outsideTargets &&
+		!route.schedule.holdOutside &&
+		!isScheduleActive(route.schedule)
+	) {
+		return false;
+	}
 	return true;
 }
 
-async function fanOutToSessions(route: Route, input: IncomingInput): Promise<void> {
-	const targets = route.targetSessions || [];
-	for (const target of targets) {
-		if (!target || target === input.session) continue;
+function fanOutConcurrency(): number {
+	return ctx?.getConfig<RouterConfig>()?.fanOut?.concurrency ?? 1;
+}
+
+// Run one delivery under the retry policy, counting retries and how retried deliveries ended
+async function deliverWithRetry<T>(
+	policy: RetryPolicy | undefined,
+	description: string,
+	deliver: () => Promise<T>,
+	retryable?: (err: unknown) => boolean,
+): Promise<T> {
+	let retried = false;
+	let result: T;
+	try {
+		result = await withRetry(
+			deliver,
+			policy,
+			(attempt, err, delayMs) => {
+				retried = true;
+				incrementRetries();
+				ctx?.log.warn(`${description} failed on attempt ${attempt}, retrying in ${delayMs}ms: ${err}`);
+			},
+			retryable,
+		);
+	} catch (err) {
+		if (retried) incrementRetryExhausted();
+		throw err;
+	}
+	if (retried) incrementRetrySucceeded();
+	return result;
+}
+
+// Timeouts have their own counter so hung targets can be told apart from failing ones
+function countFailure(err: unknown): void {
+	if (err instanceof DeliveryTimeoutError) incrementTimeouts();
+	else incrementErrors();
+}
+
+async function storeDeadLetter(letter: NewDeadLetter): Promise<void> {
+	const config = ctx?.getConfig<RouterConfig>()?.deadLetters;
+	if (config?.enabled === false) return;
+	try {
+		await addDeadLetter(letter, config?.maxEntries);
+	} catch (err) {
+		ctx?.log.error(`Failed to store dead letter for ${letter.target}: ${err}`);
+	}
+}
+
+// A timed-out inject cannot be cancelled and may still run in the session, so retrying it could give the
+// session the message twice. It is only retried when the policy's `retryOn` explicitly matches timeouts.
+function isRetryableInjectError(policy: RetryPolicy | undefined, err: unknown): boolean {
+	return !(err instanceof DeliveryTimeoutError) || (policy?.retryOn?.length ?? 0) > 0;
+}
+
+/**
+ * Deliver a dead letter again, once. It is removed on success and kept with the new error otherwise.
+ * Returns null when there is no such entry.
+ */
+async function replayDeadLetter(id: string): Promise<{ replayed: boolean; error?: string } | null> {
+	const entry = getDeadLetter(id);
+	if (!entry) return null;
+	if (!ctx) return { replayed: false, error: "Router is not running" };
+	try {
+		if (entry.direction === "incoming") {
+			await withTimeout(ctx.inject(entry.target, entry.payload), ctx.getConfig<RouterConfig>()?.timeoutMs);
+			recordDeliverySuccess(`session:${entry.target}`);
+			incrementRouted();
+			recordRouteHit(entry.source, entry.target);
+		} else {
+			const adapter = findChannelAdapter(entry.source, entry.channel);
+			if (!adapter) throw new Error(`channel ${entry.target} is not available for session ${entry.source}`);
+			await withTimeout(adapter.send(entry.payload), ctx.getConfig<RouterConfig>()?.timeoutMs);
+			recordDeliverySuccess(`channel:${entry.target}`);
+			incrementOutgoingRouted();
+		}
+	} catch (err) {
+		ctx?.log.error(`Failed to replay dead letter ${id} to ${entry.target}: ${err}`);
+		await recordReplayFailure(id, String(err));
+		return { replayed: false, error: String(err) };
+	}
+	await removeDeadLetters([id]);
+	ctx?.log.info(`Replayed dead letter ${id} to ${entry.target}`);
+	return { replayed: true };
+}
+
+// Rate limit buckets are keyed by route name, or by position for unnamed routes
+function routeLimitKey(kind: string, route: Route | OutgoingRoute, routes: Array<Route | OutgoingRoute>): string {
+	return `${kind}:${route.name ?? `#${routes.indexOf(route)}`}`;
+}
+
+// Take a token for a delivery, counting overflow. False means the delivery must be skipped.
+async function admit(key: string, limit: RateLimit | undefined): Promise<boolean> {
+	if (!limit) return true;
+	const admission = await acquireToken(key, limit);
+	if (admission !== "allowed") recordRateLimitOverflow(key, admission);
+	return admission !== "dropped";
+}
+
+// Record a delivery for dedup. `key` is set when dedup is on, so a failed delivery can be forgotten again.
+function claimDelivery(
+	config: RouterConfig | undefined,
+	source: string,
+	target: string,
+	message: string,
+	messageId?: string,
+): { duplicate: boolean; key?: string } {
+	const dedup = config?.dedup;
+	if (!dedup?.windowMs) return { duplicate: false };
+	const key = dedupKey(source, target, message, messageId);
+	if (!isDuplicate(key, dedup.windowMs, dedup.maxEntries)) return { duplicate: false, key };
+	incrementDuplicatesSuppressed();
+	return { duplicate: true };
+}
+
+const DEFAULT_MAX_HOPS = 5;
+
+/**
+ * The session to deliver to: the target itself, or its fallback while the target's circuit is open.
+ * Undefined when neither can take the delivery. A returned session's outcome must be recorded.
+ */
+function circuitTarget(breaker: CircuitBreakerConfig | undefined, target: string, path: string[]): string | undefined {
+	if (breaker?.enabled === false || canDeliver(`session:${target}`, breaker)) return target;
+	const fallback = resolveFallback(breaker, target);
+	if (fallback && !path.includes(fallback) && canDeliver(`session:${fallback}`, breaker)) return fallback;
+	return undefined;
+}
+
+function recordCircuitOutcome(breaker: CircuitBreakerConfig | undefined, target: string, ok: boolean): void {
+	if (breaker?.enabled === false) return;
+	if (ok) {
+		recordDeliverySuccess(target);
+	} else if (recordDeliveryFailure(target, breaker) === "open") {
+		ctx?.log.warn(`Circuit open for ${target} after repeated failures; deliveries to it are paused`);
+	}
+}
+
+/**
+ * When a route's deliveries may go out: after its `delayMs` and, for schedules with `holdOutside`, once the
+ * window opens. Undefined means right away.
+ */
+function deliveryDueAt(route: Route | OutgoingRoute, now: Date = new Date()): Date | undefined {
+	let dueAt = now.getTime() + (route.delayMs ?? 0);
+	const schedule = "schedule" in route ? route.schedule : undefined;
+	if (schedule?.holdOutside) {
+		const opens = nextWindowStart(schedule, now);
+		if (opens) dueAt = Math.max(dueAt, opens.getTime());
+		else ctx?.log.warn(`Schedule of route ${route.name ?? "(unnamed)"} has no window in the next week; delivering now`);
+	}
+	return dueAt > now.getTime() ? new Date(dueAt) : undefined;
+}
+
+async function holdDelivery(delivery: NewDelayedDelivery, dueAt: Date): Promise<void> {
+	try {
+		await addDelayedDelivery(delivery, dueAt);
+	} catch (err) {
+		ctx?.log.error(`Failed to store delayed delivery for ${delivery.target}: ${err}`);
+	}
+	incrementDeliveriesDelayed();
+	ctx?.log.info(`Holding delivery from ${delivery.source} to ${delivery.target} until ${dueAt.toISOString()}`);
+}
+
+// What became of an inject: the response of the session that took the message, or why no session took it
+type InjectOutcome = { response: string } | { error: unknown };
+
+/**
+ * Inject a message into a target session, or its circuit-breaker fallback while the target's circuit is open.
+ * When that fails, `fallbacks` are tried in the same way, in order. `render` produces the message for the
+ * session actually delivered to. A message no session took is counted and kept as a dead letter.
+ */
+async function injectIntoSession(
+	config: RouterConfig | undefined,
+	delivery: { route?: string; source: string; target: string; path: string[]; fallbacks?: string[] },
+	render: (deliverTo: string) => string,
+	retry: RetryPolicy | undefined,
+	timeoutMs: number | undefined,
+): Promise<InjectOutcome> {
+	const { source, target, path } = delivery;
+	const fallbacks = (delivery.fallbacks || []).filter((session) => session !== source && !path.includes(session));
+	const chain = [...new Set([target, ...fallbacks])];
+	let failure: { deliverTo: string; message: string; error: unknown; attempts: number } | undefined;
+	for (const [i, candidate] of chain.entries()) {
+		const next = chain[i + 1];
+		const deliverTo = circuitTarget(config?.circuitBreaker, candidate, path);
+		if (!deliverTo) {
+			if (next) ctx?.log.warn(`Circuit open for session:${candidate}; failing over to ${next}`);
+			continue;
+		}
+		if (deliverTo !== candidate)
+			ctx?.log.info(`Circuit open for session:${candidate}; routing to ${deliverTo} instead`);
+		const message = render(deliverTo);
+		let attempts = 0;
+		try {
+			const response = await deliverWithRetry(
+				retry,
+				`Routing from ${source} to ${deliverTo}`,
+				() => {
+					attempts++;
+					if (!ctx) throw new Error("Router is not running");
+					recordInjection([...path, deliverTo], message, config?.loopDetection?.ttlMs);
+					return withTimeout(ctx.inject(deliverTo, message), timeoutMs);
+				},
+				(err) => isRetryableInjectError(retry, err),
+			);
+			recordCircuitOutcome(config?.circuitBreaker, `session:${deliverTo}`, true);
+			incrementRouted();
+			recordRouteHit(source, deliverTo);
+			if (i > 0) incrementFailovers();
+			return { response };
+		} catch (err) {
+			ctx?.log.error(`Failed to route message from ${source} to ${deliverTo}: ${err}`);
+			recordCircuitOutcome(config?.circuitBreaker, `session:${deliverTo}`, false);
+			if (next) ctx?.log.warn(`Failing over from ${deliverTo} to ${next}`);
+			failure = { deliverTo, message, error: err, attempts };
+		}
+	}
+	if (!failure) {
+		const error = `circuit open for session:${target}`;
+		ctx?.log.warn(`Circuit open for session:${target}; keeping message from ${source} as a dead letter`);
+		incrementCircuitRejected();
+		await storeDeadLetter({
+			direction: "incoming",
+			route: delivery.route,
+			source,
+			target,
+			payload: render(target),
+			error,
+			attempts: 0,
+		});
+		return { error };
+	}
+	countFailure(failure.error);
+	await storeDeadLetter({
+		direction: "incoming",
+		route: delivery.route,
+		source,
+		target: failure.deliverTo,
+		payload: failure.message,
+		error: String(failure.error),
+		attempts: failure.attempts,
+	});
+	return { error: failure.error };
+}
+
+// The message after the route's transforms; a redact pattern that does not compile is reported once
+function transformMessage(message: string, route: Route | OutgoingRoute): string {
+	return applyTransforms(message, route.transforms, (pattern, error) =>
+		ctx?.log.error(
+			`Redact step of route ${route.name ?? "(unnamed)"} replaces whole messages: pattern ${pattern} is invalid: ${error}`,
+		),
+	);
+}
+
+// The message as a target session gets it: wrapped in the route's template, if it has one
+function renderForSession(route: Route, input: IncomingInput, transformed: string, target: string): string {
+	return route.template
+		? renderTemplate(route.template, {
+				message: transformed,
+				session: input.session,
+				target,
+				"channel.type": input.channel?.type,
+				"channel.id": input.channel?.id,
+				timestamp: new Date().toISOString(),
+				route: route.name,
+			})
+		: transformed;
+}
+
+/**
+ * Deliver a message to the route's targets. `path` lists the sessions the message has already
+ * passed through, ending with `input.session`. `transformed` is the message after the route's transforms.
+ */
+async function fanOutToSessions(
+	route: Route,
+	input: IncomingInput,
+	limitKey: string,
+	path: string[],
+	transformed: string = transformMessage(input.message, route),
+): Promise<void> {
+	if (!(await admit(limitKey, route.rateLimit))) return;
+	const config = ctx?.getConfig<RouterConfig>();
+	let targets = resolveScheduledTargets(route).filter((target) => target && target !== input.session);
+	if (route.strategy && route.strategy !== "broadcast") {
+		// Pick among targets the message has not passed through, so a loop does not cost it its only delivery
+		const candidates = targets.filter((target) => !path.includes(target));
+		const pool = candidates.length > 0 ? candidates : targets;
+		const value = route.affinity ? affinityValue(route.affinity.key, input) : undefined;
+		targets =
+			value !== undefined && pool.length > 0
+				? [selectAffinityTarget(limitKey, value, pool, route.affinity?.ttlMs)]
+				: selectTargets(limitKey, route.strategy, pool, route.weights);
+		for (const target of targets) recordStrategySelection(limitKey, target);
+	}
+	const retry = route.retry ?? config?.retry;
+	const timeoutMs = route.timeoutMs ?? config?.timeoutMs;
+	const dueAt = deliveryDueAt(route);
+	const maxHops = config?.loopDetection?.maxHops ?? DEFAULT_MAX_HOPS;
+	await runWithConcurrency(targets, fanOutConcurrency(), async (target) => {
+		if (path.includes(target) || path.length > maxHops) {
+			const reason = path.includes(target) ? "routing loop" : `more than ${maxHops} hops`;
+			ctx?.log.warn(
+				`Rejected message from ${input.session} to ${target}: ${reason} (${[...path, target].join(" -> ")})`,
+			);
+			incrementLoopsRejected();
+			return;
+		}
+		const claim = claimDelivery(config, input.session, target, input.message, input.messageId);
+		if (claim.duplicate) return;
+		const targetLimit = resolveLimit(config?.rateLimits?.sessions, target);
+		if (targetLimit && !(await admit(`session:${target}`, targetLimit.limit))) return;
 		if (!ctx) {
 			console.warn(
 				`[wopr-plugin-router] ctx is null while routing from ${input.session} to ${target} — plugin may be shutting down`,
 			);
+			return;
+		}
+		const render = (deliverTo: string): string => renderForSession(route, input, transformed, deliverTo);
+		const delivery = { route: route.name, source: input.session, target, path };
+		if (dueAt) {
+			await holdDelivery({ direction: "incoming", ...delivery, payload: render(target) }, dueAt);
+			return;
+		}
+		const fallbacks = route.fallbackTargets;
+		const outcome = await injectIntoSession(config, { ...delivery, fallbacks }, render, retry, timeoutMs);
+		if ("error" in outcome && claim.key) forgetKey(claim.key);
+	});
+}
+
+/**
+ * Inject a question for a scatter-gather and return the session's response to it, or null when there is none.
+ * Each attempt is limited to the gather's `timeoutMs`.
+ */
+async function askSession(
+	config: RouterConfig | undefined,
+	delivery: { route?: string; source: string; target: string; path: string[] },
+	render: (deliverTo: string) => string,
+	retry: RetryPolicy | undefined,
+	waitMs: number,
+): Promise<string | null> {
+	const outcome = await injectIntoSession(config, delivery, render, retry, waitMs);
+	if ("response" in outcome) return outcome.response;
+	if (outcome.error instanceof DeliveryTimeoutError) {
+		ctx?.log.warn(`No reply from ${delivery.target} within ${waitMs}ms for a message from ${delivery.source}`);
+		incrementGatherTimeouts();
+	}
+	return null;
+}
+
+/**
+ * Ask every target at once and send the merged replies to the channel the message came from. A target's
+ * reply is its response to the inject. Targets that fail or do not reply in time are left out of the merge.
+ */
+async function scatterGather(
+	route: Route,
+	gather: GatherConfig,
+	input: IncomingInput,
+	limitKey: string,
+	path: string[],
+): Promise<void> {
+	if (!(await admit(limitKey, route.rateLimit))) return;
+	const config = ctx?.getConfig<RouterConfig>();
+	const retry = route.retry ?? config?.retry;
+	const timeoutMs = route.timeoutMs ?? config?.timeoutMs;
+	const waitMs = gather.timeoutMs ?? DEFAULT_GATHER_TIMEOUT_MS;
+	const merge = gather.merge ?? "concat";
+	const transformed = transformMessage(input.message, route);
+	const targets = [...new Set(resolveScheduledTargets(route))].filter((target) => target && target !== input.session);
+	const maxHops = config?.loopDetection?.maxHops ?? DEFAULT_MAX_HOPS;
+	const pending: PendingReply[] = [];
+	for (const target of targets) {
+		if (path.includes(target) || path.length > maxHops) {
+			const reason = path.includes(target) ? "routing loop" : `more than ${maxHops} hops`;
+			ctx?.log.warn(
+				`Rejected message from ${input.session} to ${target}: ${reason} (${[...path, target].join(" -> ")})`,
+			);
+			incrementLoopsRejected();
 			continue;
 		}
-		try {
-			await ctx.inject(target, input.message);
-			incrementRouted();
-			recordRouteHit(input.session, target);
-		} catch (err) {
-			ctx?.log.error(`Failed to route message from ${input.session} to ${target}: ${err}`);
-			incrementErrors();
+		const claim = claimDelivery(config, input.session, target, input.message, input.messageId);
+		if (claim.duplicate) continue;
+		const delivery = { route: route.name, source: input.session, target, path };
+		const render = (deliverTo: string): string => renderForSession(route, input, transformed, deliverTo);
+		const ask = async (): Promise<string | null> => {
+			const targetLimit = resolveLimit(config?.rateLimits?.sessions, target);
+			if (targetLimit && !(await admit(`session:${target}`, targetLimit.limit))) return null;
+			const reply = await askSession(config, delivery, render, retry, waitMs);
+			if (reply === null && claim.key) forgetKey(claim.key);
+			return reply;
+		};
+		pending.push({ session: target, reply: ask() });
+	}
+
+	const replies = await awaitReplies(pending, merge === "first");
+	if (replies.length === 0) {
+		ctx?.log.warn(`Scatter-gather for ${input.session} got no replies; nothing to send`);
+	} else {
+		let merged = merge === "first" ? replies[0].message : renderReplies(replies, gather, route.name);
+		if (merge === "aggregate" && gather.aggregator) {
+			const aggregator = gather.aggregator;
+			const prompt = renderAggregatorPrompt(transformed, replies, gather, route.name);
+			const delivery = { route: route.name, source: input.session, target: aggregator, path };
+			const aggregated = await askSession(config, delivery, () => prompt, retry, waitMs);
+			if (aggregated !== null) merged = aggregated;
+			else ctx?.log.warn(`No merged reply from ${aggregator}; sending the replies as they are`);
 		}
+		await replyToChannel(config, route, input, merged, retry, timeoutMs);
+	}
+	// With merge "first" the other targets are still answering
+	await Promise.all(pending.map((p) => p.reply));
+}
+
+// Send a merged scatter-gather reply to the channel the original message came from
+async function replyToChannel(
+	config: RouterConfig | undefined,
+	route: Route,
+	input: IncomingInput,
+	reply: string,
+	retry: RetryPolicy | undefined,
+	timeoutMs: number | undefined,
+): Promise<void> {
+	if (!input.channel) {
+		ctx?.log.warn(`Scatter-gather reply for ${input.session} has no channel to go to`);
+		return;
+	}
+	const profile = resolveFormatProfile(input.channel.type, undefined, config?.channelFormats);
+	const message = formatForChannel(reply, profile);
+	const adapter = findChannelAdapter(input.session, input.channel);
+	incrementGathersCompleted();
+	if (!adapter) {
+		await reportUnavailableChannel({ route: route.name, source: input.session, channel: input.channel }, message);
+		return;
 	}
+	const chunks = chunkForChannel(message, input.channel.type, config?.chunking);
+	await sendToChannel(config, { route: route.name, source: input.session, adapter }, chunks, retry, timeoutMs);
+}
+
+// Hold a message for the route's digest instead of delivering it. Each source session has its own digest.
+function collectForDigest(
+	route: Route,
+	digest: DigestConfig,
+	input: IncomingInput,
+	limitKey: string,
+	path: string[],
+): void {
+	incrementMessagesDigested();
+	const item: DigestItem = {
+		message: transformMessage(input.message, route),
+		session: input.session,
+		channel: input.channel,
+		receivedAt: Date.now(),
+		path,
+	};
+	addToDigest(`${limitKey}\0${input.session}`, item, digest, (items) =>
+		runInBackground(
+			() => deliverDigest(route, digest, items, limitKey),
+			(err) => ctx?.log.error(`Digest delivery for ${input.session} failed: ${err}`),
+		),
+	);
 }
 
-async function fanOutToChannels(route: OutgoingRoute, output: OutgoingOutput): Promise<void> {
-	const channels = ctx?.getChannelsForSession(output.session) ?? [];
-	for (const adapter of channels) {
-		if (route.channelType && adapter.channel.type !== route.channelType) continue;
-		if (route.channelId && adapter.channel.id !== route.channelId) continue;
+// A digest is delivered like a single message that passed through every session its messages did
+async function deliverDigest(route: Route, digest: DigestConfig, items: DigestItem[], limitKey: string): Promise<void> {
+	const session = items[0].session;
+	const body = renderDigest(items, digest, route.name);
+	const path = [...new Set(items.flatMap((item) => item.path).filter((s) => s !== session)), session];
+	ctx?.log.info(`Delivering digest of ${items.length} messages from ${session}`);
+	incrementDigestsDelivered();
+	await fanOutToSessions(route, { session, message: body }, limitKey, path, body);
+}
+
+function matchingChannels(route: OutgoingRoute, output: OutgoingOutput, channels: ChannelAdapter[]): ChannelAdapter[] {
+	return channels.filter((adapter) =>
+		matchesRoute(route, { session: output.session, channel: adapter.channel, message: output.response }),
+	);
+}
+
+// A channel that is not registered fails like a send would, so the message can be replayed once it is
+async function reportUnavailableChannel(
+	delivery: { route?: string; source: string; channel: { type: string; id: string } },
+	payload: string,
+): Promise<void> {
+	const { route, source, channel } = delivery;
+	const target = `${channel.type}:${channel.id}`;
+	const error = `channel ${target} is not available`;
+	ctx?.log.error(`Failed to send response from ${source} to ${target}: ${error}`);
+	incrementErrors();
+	await storeDeadLetter({
+		direction: "outgoing",
+		route,
+		source,
+		target,
+		channel: { type: channel.type, id: channel.id },
+		payload,
+		error,
+		attempts: 0,
+	});
+}
+
+/**
+ * Look up a route's `targetChannels` among every registered channel. Channels that are not registered
+ * are returned separately, as far as the route's filters let them through, so they can be reported.
+ */
+function resolveTargetChannels(
+	route: OutgoingRoute,
+	output: OutgoingOutput,
+	targetChannels: Array<{ type: string; id: string }>,
+): { adapters: ChannelAdapter[]; unresolved: Array<{ type: string; id: string }> } {
+	const adapters: ChannelAdapter[] = [];
+	const unresolved: Array<{ type: string; id: string }> = [];
+	for (const channel of targetChannels) {
+		const adapter = ctx?.getChannel({ type: channel.type, id: channel.id });
+		if (adapter) adapters.push(adapter);
+		else if (matchesRoute(route, { session: output.session, channel, message: output.response })) {
+			unresolved.push(channel);
+		}
+	}
+	return { adapters: matchingChannels(route, output, adapters), unresolved };
+}
+
+/**
+ * The adapter for a channel: one of the session's own, or else any registered channel, which is how
+ * responses reach channels of other sessions.
+ */
+function findChannelAdapter(
+	session: string,
+	channel: { type: string; id: string } | undefined,
+): ChannelAdapter | undefined {
+	if (!ctx || !channel) return undefined;
+	const matches = (a: ChannelAdapter): boolean => a.channel.type === channel.type && a.channel.id === channel.id;
+	return ctx.getChannelsForSession(session).find(matches) ?? ctx.getChannel(channel);
+}
+
+/**
+ * Send a response to a channel in chunks. Failed chunks are counted and kept as dead letters, as is every
+ * chunk while the channel's circuit is open. Returns whether every chunk was sent.
+ */
+async function sendToChannel(
+	config: RouterConfig | undefined,
+	delivery: { route?: string; source: string; adapter: ChannelAdapter },
+	chunks: string[],
+	retry: RetryPolicy | undefined,
+	timeoutMs: number | undefined,
+): Promise<boolean> {
+	const { source, adapter } = delivery;
+	const channel = `${adapter.channel.type}:${adapter.channel.id}`;
+	const letter = {
+		direction: "outgoing" as const,
+		route: delivery.route,
+		source,
+		target: channel,
+		channel: { type: adapter.channel.type, id: adapter.channel.id },
+	};
+	const breaker = config?.circuitBreaker;
+	if (breaker?.enabled !== false && !canDeliver(`channel:${channel}`, breaker)) {
+		ctx?.log.warn(`Circuit open for channel:${channel}; keeping response from ${source} as a dead letter`);
+		incrementCircuitRejected();
+		for (const chunk of chunks) {
+			await storeDeadLetter({ ...letter, payload: chunk, error: `circuit open for channel:${channel}`, attempts: 0 });
+		}
+		return false;
+	}
+
+	let failed = false;
+	for (const [i, chunk] of chunks.entries()) {
+		let attempts = 0;
 		try {
-			await adapter.send(output.response);
-			incrementOutgoingRouted();
+			await deliverWithRetry(retry, `Sending to channel ${channel}`, () => {
+				attempts++;
+				return withTimeout(adapter.send(chunk), timeoutMs);
+			});
 		} catch (err) {
-			ctx?.log.error(`Failed to send message to channel ${adapter.channel.type}:${adapter.channel.id}: ${err}`);
+			const part = chunks.length > 1 ? ` (chunk ${i + 1}/${chunks.length})` : "";
+			ctx?.log.error(`Failed to send message to channel ${channel}${part}: ${err}`);
+			countFailure(err);
+			failed = true;
+			await storeDeadLetter({ ...letter, payload: chunk, error: String(err), attempts });
+			// Later chunks would arrive with a gap before them, so they are kept with the failed one
+			for (const rest of chunks.slice(i + 1)) {
+				const error = `not sent after chunk ${i + 1}/${chunks.length} failed`;
+				await storeDeadLetter({ ...letter, payload: rest, error, attempts: 0 });
+			}
+			break;
+		}
+	}
+	recordCircuitOutcome(breaker, `channel:${channel}`, !failed);
+	if (!failed) incrementOutgoingRouted();
+	return !failed;
+}
+
+async function fanOutToChannels(
+	route: OutgoingRoute,
+	channels: ChannelAdapter[],
+	output: OutgoingOutput,
+	limitKey: string,
+	unresolved: Array<{ type: string; id: string }> = [],
+): Promise<void> {
+	if (!(await admit(limitKey, route.rateLimit))) return;
+	const config = ctx?.getConfig<RouterConfig>();
+	const transformed = transformMessage(output.response, route);
+	const retry = route.retry ?? config?.retry;
+	const timeoutMs = route.timeoutMs ?? config?.timeoutMs;
+	const dueAt = deliveryDueAt(route);
+	const render = (channel: { type: string; id: string }): string => {
+		const rendered = route.template
+			? renderTemplate(route.template, {
+					message: transformed,
+					session: output.session,
+					"channel.type": channel.type,
+					"channel.id": channel.id,
+					timestamp: new Date().toISOString(),
+					route: route.name,
+				})
+			: transformed;
+		return formatForChannel(rendered, resolveFormatProfile(channel.type, route.format, config?.channelFormats));
+	};
+	for (const channel of unresolved) {
+		await reportUnavailableChannel({ route: route.name, source: output.session, channel }, render(channel));
+	}
+	await runWithConcurrency(channels, fanOutConcurrency(), async (adapter) => {
+		const channel = `${adapter.channel.type}:${adapter.channel.id}`;
+		const claim = claimDelivery(config, output.session, channel, output.response);
+		if (claim.duplicate) return;
+		const channelLimit = resolveLimit(config?.rateLimits?.channels, channel);
+		if (channelLimit && !(await admit(`channel:${channel}`, channelLimit.limit))) return;
+		const message = render(adapter.channel);
+		if (dueAt) {
+			const held = { direction: "outgoing" as const, route: route.name, source: output.session, target: channel };
+			await holdDelivery({ ...held, channel: { ...adapter.channel }, payload: message }, dueAt);
+			return;
+		}
+		const chunks = chunkForChannel(message, adapter.channel.type, config?.chunking);
+		const delivery = { route: route.name, source: output.session, adapter };
+		const sent = await sendToChannel(config, delivery, chunks, retry, timeoutMs);
+		if (!sent && claim.key) forgetKey(claim.key);
+	});
+}
+
+/**
+ * Deliver a held delivery that has fallen due, with the retry policy and timeout of the route
+ * that held it, if that route still exists. It is removed from the store afterwards, whatever the outcome.
+ */
+async function deliverDelayed(entry: DelayedDelivery): Promise<void> {
+	try {
+		const config = ctx?.getConfig<RouterConfig>();
+		const named = <T extends Route | OutgoingRoute>(routes: T[] | undefined): T | undefined =>
+			entry.route === undefined ? undefined : routes?.find((r) => r.name === entry.route);
+		if (entry.direction === "incoming") {
+			const route = named(config?.routes);
+			const delivery = { route: entry.route, source: entry.source, target: entry.target };
+			await injectIntoSession(
+				config,
+				{ ...delivery, path: entry.path ?? [entry.source], fallbacks: route?.fallbackTargets },
+				() => entry.payload,
+				route?.retry ?? config?.retry,
+				route?.timeoutMs ?? config?.timeoutMs,
+			);
+			return;
+		}
+		const route = named(config?.outgoingRoutes);
+		const retry = route?.retry ?? config?.retry;
+		const timeoutMs = route?.timeoutMs ?? config?.timeoutMs;
+		const adapter = findChannelAdapter(entry.source, entry.channel);
+		if (!adapter) {
+			const error = `channel ${entry.target} is not available for session ${entry.source}`;
+			ctx?.log.error(`Failed to send delayed response: ${error}`);
 			incrementErrors();
+			const { direction, route: routeName, source, target, channel, payload } = entry;
+			await storeDeadLetter({ direction, route: routeName, source, target, channel, payload, error, attempts: 0 });
+			return;
 		}
+		const chunks = chunkForChannel(entry.payload, adapter.channel.type, config?.chunking);
+		await sendToChannel(config, { route: entry.route, source: entry.source, adapter }, chunks, retry, timeoutMs);
+	} finally {
+		await removeDelayedDeliveries([entry.id]);
 	}
 }
 
+const deadLetterIdSchema = {
+	type: "object",
+	properties: { id: { type: "string", description: "Dead letter id" } },
+	required: ["id"],
+};
+
+function jsonResult(value: unknown, isError = false): A2AToolResult {
+	return { content: [{ type: "text" as const, text: JSON.stringify(value) }], ...(isError ? { isError } : {}) };
+}
+
 const routerConfigSchema: ConfigSchema = {
 	title: "Router Plugin Configuration",
 	description: "Configure message routing between sessions and channels",
@@ -227,6 +1080,66 @@ const routerConfigSchema: ConfigSchema = {
 			label: "Outgoing Routes",
 			description: "Outgoing response routing rules",
 		},
+		{
+			name: "fanOut",
+			type: "object" as const,
+			label: "Fan-out",
+			description: "Delivery concurrency per route and background delivery",
+		},
+		{
+			name: "retry",
+			type: "object" as const,
+			label: "Retry",
+			description: "Default retry policy for failed deliveries",
+		},
+		{
+			name: "timeoutMs",
+			type: "number" as const,
+			label: "Delivery timeout (ms)",
+			description: "Give up on a delivery attempt after this long (0 = no timeout)",
+		},
+		{
+			name: "deadLetters",
+			type: "object" as const,
+			label: "Dead letters",
+			description: "Keep deliveries that failed after every retry for replay",
+		},
+		{
+			name: "rateLimits",
+			type: "object" as const,
+			label: "Rate limits",
+			description: "Token-bucket limits per target session and per outgoing channel",
+		},
+		{
+			name: "dedup",
+			type: "object" as const,
+			label: "Duplicate suppression",
+			description: "Suppress repeated deliveries within a time window",
+		},
+		{
+			name: "loopDetection",
+			type: "object" as const,
+			label: "Loop detection",
+			description: "Maximum hops a routed message may take between sessions",
+		},
+		{
+			name: "circuitBreaker",
+			type: "object" as const,
+			label: "Circuit breaker",
+			description: "Pause deliveries to targets that keep failing",
+		},
+		{
+			name: "chunking",
+			type: "object" as const,
+			label: "Chunking",
+			description: "Per-channel-type length limits for splitting long responses",
+		},
+		{
+			name: "channelFormats",
+			type: "object" as const,
+			label: "Channel Formats",
+			description: "Format profile per channel type: markdown, slack or plain",
+		},
 	],
 };
 
@@ -257,6 +1170,22 @@ export const WOPRPlugin: WOPRPluginInterface = {
 		cleanups.push(() => ctx?.unregisterConfigSchema?.("wopr-plugin-router"));
 
 		const config = ctx.getConfig<RouterConfig>();
+		for (const problem of validateRouterConfig(config)) {
+			ctx.log.error(`Invalid router config: ${problem}`);
+		}
+		for (const warning of routerConfigWarnings(config)) {
+			ctx.log.warn(`Router config warning: ${warning}`);
+		}
+		try {
+			await loadDeadLetters(ctx.getPluginDir());
+		} catch (err) {
+			ctx.log.error(`Failed to load dead letters: ${err}`);
+		}
+		try {
+			await loadDelayedDeliveries(ctx.getPluginDir());
+		} catch (err) {
+			ctx.log.error(`Failed to load delayed deliveries: ${err}`);
+		}
 		const uiPort = config.uiPort || 7333;
 		uiServer = startUIServer(uiPort);
 
@@ -295,6 +1224,40 @@ export const WOPRPlugin: WOPRPluginInterface = {
 							};
 						},
 					},
+					{
+						name: "router.deadLetters.list",
+						description: "List deliveries that failed after every retry.",
+						inputSchema: { type: "object", properties: {} },
+						handler: async () => jsonResult(buildDeadLettersResponse(listDeadLetters())),
+					},
+					{
+						name: "router.deadLetters.get",
+						description: "Inspect one dead letter, including its full payload.",
+						inputSchema: deadLetterIdSchema,
+						handler: async (args) => {
+							const entry = getDeadLetter(String(args.id));
+							return entry ? jsonResult(entry) : jsonResult({ error: "Dead letter not found" }, true);
+						},
+					},
+					{
+						name: "router.deadLetters.replay",
+						description: "Deliver a dead letter again. It is removed from the queue if the delivery succeeds.",
+						inputSchema: deadLetterIdSchema,
+						handler: async (args) => {
+							const result = await replayDeadLetter(String(args.id));
+							if (!result) return jsonResult({ error: "Dead letter not found" }, true);
+							return jsonResult(result, !result.replayed);
+						},
+					},
+					{
+						name: "router.deadLetters.purge",
+						description: "Delete one dead letter by id, or all of them when no id is given.",
+						inputSchema: { type: "object", properties: { id: { type: "string" } } },
+						handler: async (args) => {
+							const purged = await removeDeadLetters(args.id === undefined ? undefined : [String(args.id)]);
+							return jsonResult({ purged });
+						},
+					},
 				],
 			});
 			if (ctx.unregisterExtension) {
@@ -304,26 +1267,85 @@ export const WOPRPlugin: WOPRPluginInterface = {
 
 		ctx.registerMiddleware({
 			name: "router",
-			async onIncoming(input: IncomingInput): Promise<string> {
+			async onIncoming(input: IncomingInput): Promise<string | null> {
 				const config = ctx?.getConfig<RouterConfig>();
 				const routes = config?.routes || [];
-				for (const route of routes) {
-					if (!matchesRoute(route, input)) continue;
-					await fanOutToSessions(route, input);
+				const path = takeInjectionPath(input.session, input.message);
+				let consumed = false;
+				for (const route of selectRoutes(routes, (r) => matchesRoute(r, input))) {
+					const mode = route.mode ?? "copy";
+					if (mode !== "copy") consumed = true;
+					if (mode === "drop") continue;
+					const limitKey = routeLimitKey("route", route, routes);
+					if (mode === "scatter-gather") {
+						// Always in the background: waiting for every target's reply would hold up the session
+						runInBackground(
+							() => scatterGather(route, route.gather ?? {}, input, limitKey, path),
+							(err) => ctx?.log.error(`Scatter-gather for ${input.session} failed: ${err}`),
+						);
+						continue;
+					}
+					if (route.digest) {
+						collectForDigest(route, route.digest, input, limitKey, path);
+						continue;
+					}
+					if (route.background ?? config?.fanOut?.background) {
+						runInBackground(
+							() => fanOutToSessions(route, input, limitKey, path),
+							(err) => ctx?.log.error(`Background routing from ${input.session} failed: ${err}`),
+						);
+					} else {
+						await fanOutToSessions(route, input, limitKey, path);
+					}
 				}
-				return input.message;
+				return consumed ? null : input.message;
 			},
 			async onOutgoing(output: OutgoingOutput): Promise<string> {
 				const config = ctx?.getConfig<RouterConfig>();
 				const routes = config?.outgoingRoutes || [];
-				for (const route of routes) {
-					if (route.sourceSession && route.sourceSession !== output.session) continue;
-					await fanOutToChannels(route, output);
+				// A route matches when at least one of the session's channels matches it.
+				// Channels are looked up lazily so sessions without routes skip the lookup.
+				let channels: ChannelAdapter[] | undefined;
+				const targets = new Map<
+					OutgoingRoute,
+					{ adapters: ChannelAdapter[]; unresolved: Array<{ type: string; id: string }> }
+				>();
+				const selected = selectRoutes(routes, (route) => {
+					if (route.sourceSession && !matchesPattern(route.sourceSession, output.session)) return false;
+					if (route.targetChannels) {
+						const resolved = resolveTargetChannels(route, output, route.targetChannels);
+						targets.set(route, resolved);
+						return resolved.adapters.length + resolved.unresolved.length > 0;
+					}
+					channels ??= ctx?.getChannelsForSession(output.session) ?? [];
+					const matched = matchingChannels(route, output, channels);
+					targets.set(route, { adapters: matched, unresolved: [] });
+					return matched.length > 0;
+				});
+				for (const route of selected) {
+					const { adapters, unresolved } = targets.get(route) ?? { adapters: [], unresolved: [] };
+					const limitKey = routeLimitKey("outgoingRoute", route, routes);
+					if (route.background ?? config?.fanOut?.background) {
+						runInBackground(
+							() => fanOutToChannels(route, adapters, output, limitKey, unresolved),
+							(err) => ctx?.log.error(`Background send for ${output.session} failed: ${err}`),
+						);
+					} else {
+						await fanOutToChannels(route, adapters, output, limitKey, unresolved);
+					}
 				}
 				return output.response;
 			},
 		});
 		cleanups.push(() => ctx?.unregisterMiddleware?.("router"));
+
+		// Deliveries that fell due while the plugin was stopped go out right away
+		startDelayedDeliveries((entry) =>
+			runInBackground(
+				() => deliverDelayed(entry),
+				(err) => ctx?.log.error(`Delayed delivery ${entry.id} to ${entry.target} failed: ${err}`),
+			),
+		);
 	},
 
 	async shutdown(): Promise<void> {
@@ -336,6 +1358,16 @@ export const WOPRPlugin: WOPRPluginInterface = {
 		}
 		cleanups.length = 0;
 
+		// Send pending digests now rather than losing them; they are awaited with the other background work
+		flushDigests();
+		// Delayed deliveries that are not yet due stay stored for the next start
+		stopDelayedDeliveries();
+		// Drop deliveries still queued for a rate limit, then let the rest finish while ctx is still available
+		resetRateLimits();
+		await waitForBackground();
+		await closeDeadLetters();
+		await closeDelayedDeliveries();
+
 		if (uiServer) {
 			ctx?.log.info("Router UI server shutting down...");
 			await new Promise<void>((resolve) => uiServer?.close(() => resolve()));
@@ -343,6 +1375,11 @@ export const WOPRPlugin: WOPRPluginInterface = {
 		}
 
 		resetStats();
+		resetDedup();
+		resetLoopTracking();
+		resetCircuits();
+		resetStrategies();
+		resetAffinities();
 		ctx = null;
 	},
 };
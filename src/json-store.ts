@@ -0,0 +1,75 @@
+// src/json-store.ts
+
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+
+/**
+ * A list of entries kept in a JSON file under the plugin directory.
+ */
+export interface JsonFileStore<T> {
+	/**
+	 * Read the entries stored in `dir` and write later saves there.
+	 * A missing file means no entries. A file that does not parse is moved aside to
+	 * `<file>.corrupt-<timestamp>` before this throws, so later saves do not overwrite it.
+	 * A file that cannot be read throws and leaves saves off.
+	 */
+	load(dir: string): Promise<T[]>;
+	/** Write `entries` to the file; nothing is written before `load`. */
+	save(entries: T[]): Promise<void>;
+	/** Wait for outstanding writes, then stop writing. */
+	close(): Promise<void>;
+}
+
+export function createJsonFileStore<T>(fileName: string): JsonFileStore<T> {
+	let storePath: string | null = null;
+	// Writes are chained so the file always ends up with the latest snapshot
+	let pending: Promise<void> = Promise.resolve();
+
+	return {
+		async load(dir) {
+			const path = join(dir, fileName);
+			storePath = null;
+			let raw: string;
+			try {
+				raw = await readFile(path, "utf8");
+			} catch (err) {
+				if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+				storePath = path;
+				return [];
+			}
+			let parsed: unknown;
+			try {
+				parsed = JSON.parse(raw);
+				if (!Array.isArray(parsed)) throw new Error("it does not contain an array");
+			} catch (err) {
+				const aside = `${path}.corrupt-${Date.now()}`;
+				await rename(path, aside);
+				storePath = path;
+				throw new Error(
+					`${path} could not be loaded and was moved to ${aside}: ${err instanceof Error ? err.message : err}`,
+				);
+			}
+			storePath = path;
+			return parsed;
+		},
+
+		save(entries) {
+			const path = storePath;
+			if (!path) return Promise.resolve();
+			const snapshot = JSON.stringify(entries, null, 2);
+			// Written to a temporary file first and renamed over the old one, so a crash never leaves half a file
+			const write = pending.then(async () => {
+				await mkdir(dirname(path), { recursive: true });
+				await writeFile(`${path}.tmp`, snapshot);
+				await rename(`${path}.tmp`, path);
+			});
+			pending = write.catch(() => {});
+			return write;
+		},
+
+		async close() {
+			await pending;
+			storePath = null;
+		},
+	};
+}
@@ -0,0 +1,100 @@
+// src/loops.ts
+
+import { matchesPattern } from "./match.js";
+import { routeTargets } from "./schedule.js";
+import type { Route } from "./types.js";
+
+const DEFAULT_TTL_MS = 60_000;
+const MAX_REPORTED_CYCLES = 20;
+
+interface Injection {
+	path: string[];
+	expiresAt: number;
+}
+
+// Messages the router injected, keyed by target session and text, waiting to come back through onIncoming
+const injected = new Map<string, Injection[]>();
+
+function injectionKey(session: string, message: string): string {
+	return `${session}\0${message}`;
+}
+
+function prune(now: number): void {
+	for (const [key, entries] of injected) {
+		const live = entries.filter((entry) => entry.expiresAt > now);
+		if (live.length === 0) injected.delete(key);
+		else if (live.length !== entries.length) injected.set(key, live);
+	}
+}
+
+/**
+ * Remember that `message` is being injected into the last session of `path`, so that when it comes
+ * back through onIncoming its path is known.
+ */
+export function recordInjection(
+	path: string[],
+	message: string,
+	ttlMs = DEFAULT_TTL_MS,
+	now: number = Date.now(),
+): void {
+	prune(now);
+	const key = injectionKey(path[path.length - 1], message);
+	const entries = injected.get(key) ?? [];
+	entries.push({ path, expiresAt: now + ttlMs });
+	injected.set(key, entries);
+}
+
+/**
+ * The sessions a message has passed through, ending with `session`. A message the router did not
+ * inject starts a new path.
+ */
+export function takeInjectionPath(session: string, message: string, now: number = Date.now()): string[] {
+	const key = injectionKey(session, message);
+	const entries = injected.get(key);
+	let entry = entries?.shift();
+	while (entry && entry.expiresAt <= now) entry = entries?.shift();
+	if (entries?.length === 0) injected.delete(key);
+	return entry ? entry.path : [session];
+}
+
+export function resetLoopTracking(): void {
+	injected.clear();
+}
+
+/**
+ * Cycles in the static route graph: sessions that can forward a message back to themselves
+ * through other sessions. Each cycle starts and ends with the same session.
+ */
+export function findRouteCycles(routes: Route[]): string[][] {
+	const forwarding = routes.filter((route) => route.mode !== "drop");
+	const targetsOf = (route: Route): string[] => [
+		...routeTargets(route),
+		...(route.fallbackTargets || []),
+		...(route.schedule?.outsideTargets || []),
+		...(route.mode === "scatter-gather" && route.gather?.aggregator ? [route.gather.aggregator] : []),
+	];
+	const sessions = [...new Set(forwarding.flatMap(targetsOf))].sort();
+	const edges = new Map<string, string[]>();
+	for (const session of sessions) {
+		const next = new Set<string>();
+		for (const route of forwarding) {
+			if (route.sourceSession && !matchesPattern(route.sourceSession, session)) continue;
+			for (const target of targetsOf(route)) {
+				if (target !== session) next.add(target);
+			}
+		}
+		edges.set(session, [...next].sort());
+	}
+
+	// Report each cycle once, starting from its alphabetically first session
+	const cycles: string[][] = [];
+	const walk = (start: string, path: string[]): void => {
+		for (const next of edges.get(path[path.length - 1]) || []) {
+			if (cycles.length >= MAX_REPORTED_CYCLES) return;
+			if (next === start) cycles.push([...path, start]);
+			else if (next > start && !path.includes(next)) walk(start, [...path, next]);
+		}
+	};
+	for (const session of sessions) walk(session, [session]);
+	return cycles;
+}
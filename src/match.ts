@@ -0,0 +1,175 @@
+// src/match.ts
+
+import type { ContentMatch, FieldPredicate, IncomingInput, MatchExpression, Pattern, RouteOrdering } from "./types.js";
+
+const REGEX_PATTERN = /^\/(.*)\/([a-z]*)$/s;
+
+// Compiled patterns, keyed by source string. `null` marks a pattern that failed to compile.
+const compiled = new Map<string, RegExp | null>();
+
+/**
+ * True when the pattern is a glob or a regex rather than a literal value.
+ */
+export function isPattern(pattern: Pattern): boolean {
+	return REGEX_PATTERN.test(pattern) || /[*?]/.test(pattern);
+}
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
+
+function globToRegExp(glob: string): RegExp {
+	const source = glob
+		.split("")
+		.map((char) => {
+			if (char === "*") return ".*";
+			if (char === "?") return ".";
+			return escapeRegExp(char);
+		})
+		.join("");
+	return new RegExp(`^${source}$`);
+}
+
+function compilePattern(pattern: Pattern): RegExp | null {
+	const cached = compiled.get(pattern);
+	if (cached !== undefined) return cached;
+
+	let regex: RegExp | null;
+	try {
+		const literal = REGEX_PATTERN.exec(pattern);
+		regex = literal ? new RegExp(literal[1], literal[2]) : globToRegExp(pattern);
+	} catch {
+		regex = null;
+	}
+	compiled.set(pattern, regex);
+	return regex;
+}
+
+/**
+ * Returns an error message when the pattern cannot be compiled, otherwise null.
+ */
+export function validatePattern(pattern: Pattern): string | null {
+	if (!isPattern(pattern)) return null;
+	const literal = REGEX_PATTERN.exec(pattern);
+	try {
+		if (literal) new RegExp(literal[1], literal[2]);
+		return null;
+	} catch (err) {
+		return err instanceof Error ? err.message : String(err);
+	}
+}
+
+/**
+ * Match a value against an exact string, glob or `/regex/flags` pattern.
+ * Patterns that fail to compile never match.
+ */
+export function matchesPattern(pattern: Pattern, value: string | undefined): boolean {
+	if (value === undefined) return false;
+	if (!isPattern(pattern)) return pattern === value;
+	const regex = compilePattern(pattern);
+	if (!regex) return false;
+	regex.lastIndex = 0;
+	return regex.test(value);
+}
+
+/**
+ * Build a RegExp from a bare (`a|b`) or `/source/flags` regex string, adding any missing `extraFlags`.
+ * Throws when the regex is invalid.
+ */
+export function toRegExp(regex: string, extraFlags = ""): RegExp {
+	const literal = REGEX_PATTERN.exec(regex);
+	const source = literal ? literal[1] : regex;
+	let flags = literal ? literal[2] : "";
+	for (const flag of extraFlags) {
+		if (!flags.includes(flag)) flags += flag;
+	}
+	return new RegExp(source, flags);
+}
+
+/**
+ * Normalise a content regex to the `/source/flags` pattern form.
+ */
+export function toRegexPattern(regex: string): Pattern {
+	return REGEX_PATTERN.test(regex) ? regex : `/${regex}/`;
+}
+
+function containsWord(haystack: string, word: string): boolean {
+	return new RegExp(`(^|[^\\p{L}\\p{N}_])${escapeRegExp(word)}(?=$|[^\\p{L}\\p{N}_])`, "u").test(haystack);
+}
+
+/**
+ * Check a message against content conditions. Every condition that is set must hold.
+ */
+export function matchesContent(content: ContentMatch, message: string): boolean {
+	const fold = (text: string): string => (content.caseSensitive ? text : text.toLowerCase());
+	const text = fold(message);
+
+	if (content.minLength !== undefined && message.length < content.minLength) return false;
+	if (content.maxLength !== undefined && message.length > content.maxLength) return false;
+	if (content.contains && !text.includes(fold(content.contains))) return false;
+	if (content.keywords && content.keywords.length > 0) {
+		if (!content.keywords.some((keyword) => keyword && containsWord(text, fold(keyword)))) return false;
+	}
+	if (content.commandPrefix) {
+		const prefix = fold(content.commandPrefix);
+		const trimmed = text.trimStart();
+		if (!trimmed.startsWith(prefix)) return false;
+		const next = trimmed.charAt(prefix.length);
+		if (next && !/\s/.test(next)) return false;
+	}
+	if (content.regex && !matchesPattern(toRegexPattern(content.regex), message)) return false;
+	return true;
+}
+
+/**
+ * Check the flat field conditions against a message. Unset fields always match.
+ */
+export function matchesFields(predicate: FieldPredicate, subject: IncomingInput): boolean {
+	if (predicate.sourceSession && !matchesPattern(predicate.sourceSession, subject.session)) return false;
+	if (predicate.channelType && !matchesPattern(predicate.channelType, subject.channel?.type)) return false;
+	if (predicate.channelId && !matchesPattern(predicate.channelId, subject.channel?.id)) return false;
+	if (predicate.content && !matchesContent(predicate.content, subject.message)) return false;
+	return true;
+}
+
+/**
+ * Evaluate an `all` / `any` / `not` expression tree whose leaves are field predicates.
+ */
+export function matchesExpression(expression: MatchExpression, subject: IncomingInput): boolean {
+	if ("all" in expression) return expression.all.every((child) => matchesExpression(child, subject));
+	if ("any" in expression) return expression.any.some((child) => matchesExpression(child, subject));
+	if ("not" in expression) return !matchesExpression(expression.not, subject);
+	return matchesFields(expression, subject);
+}
+
+/**
+ * Sort routes by descending priority, keeping config order for ties.
+ */
+export function orderRoutes<T extends RouteOrdering>(routes: T[]): T[] {
+	return routes
+		.map((route, index) => ({ route, index }))
+		.sort((a, b) => (b.route.priority ?? 0) - (a.route.priority ?? 0) || a.index - b.index)
+		.map(({ route }) => route);
+}
+
+/**
+ * Pick the routes to run for a message: matching routes in priority order up to
+ * and including the first `final` one, or the matching fallback routes when no
+ * regular route matched. `matches` is only called for routes that are reached.
+ */
+export function selectRoutes<T extends RouteOrdering>(routes: T[], matches: (route: T) => boolean): T[] {
+	const ordered = orderRoutes(routes);
+	const pick = (candidates: T[]): T[] => {
+		const selected: T[] = [];
+		for (const route of candidates) {
+			if (!matches(route)) continue;
+			selected.push(route);
+			if (route.final) break;
+		}
+		return selected;
+	};
+
+	const selected = pick(ordered.filter((route) => !route.fallback));
+	if (selected.length > 0) return selected;
+	return pick(ordered.filter((route) => route.fallback));
+}
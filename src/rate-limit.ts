@@ -0,0 +1,138 @@
+// src/rate-limit.ts
+
+import { matchesPattern } from "./match.js";
+import type { Pattern, RateLimit } from "./types.js";
+
+const DEFAULT_INTERVAL_MS = 1000;
+const DEFAULT_SAMPLE_RATE = 0.1;
+const DEFAULT_MAX_QUEUE = 100;
+
+export const RATE_LIMIT_OVERFLOWS = ["drop", "queue", "sample"];
+
+/**
+ * How a delivery got past its limit: `allowed` took a token straight away, `queued` waited for one,
+ * `sampled` was let through without one, and `dropped` must not be delivered.
+ */
+export type Admission = "allowed" | "queued" | "sampled" | "dropped";
+
+interface Bucket {
+	tokens: number;
+	updatedAt: number;
+	waiters: Array<(admitted: boolean) => void>;
+	timer: ReturnType<typeof setTimeout> | null;
+}
+
+// Buckets by limit key, e.g. "route:escalate" or "session:billing"
+const buckets = new Map<string, Bucket>();
+
+function capacity(limit: RateLimit): number {
+	return Math.max(1, limit.burst ?? limit.rate);
+}
+
+function tokensPerMs(limit: RateLimit): number {
+	return limit.rate / (limit.intervalMs ?? DEFAULT_INTERVAL_MS);
+}
+
+function refill(bucket: Bucket, limit: RateLimit, now: number): void {
+	bucket.tokens = Math.min(capacity(limit), bucket.tokens + (now - bucket.updatedAt) * tokensPerMs(limit));
+	bucket.updatedAt = now;
+}
+
+// Hand tokens to waiting deliveries in order as they become available
+function scheduleWaiters(bucket: Bucket, limit: RateLimit): void {
+	if (bucket.timer || bucket.waiters.length === 0 || !(tokensPerMs(limit) > 0)) return;
+	const delay = Math.max(0, Math.ceil((1 - bucket.tokens) / tokensPerMs(limit)));
+	bucket.timer = setTimeout(() => {
+		bucket.timer = null;
+		refill(bucket, limit, Date.now());
+		while (bucket.tokens >= 1 && bucket.waiters.length > 0) {
+			bucket.tokens--;
+			bucket.waiters.shift()?.(true);
+		}
+		scheduleWaiters(bucket, limit);
+	}, delay);
+}
+
+/**
+ * Take a token from the bucket for `key`, applying the limit's overflow behavior when it is empty.
+ * Resolves once the delivery may go ahead, or with `dropped` when it must not.
+ */
+export async function acquireToken(
+	key: string,
+	limit: RateLimit,
+	random: () => number = Math.random,
+): Promise<Admission> {
+	const now = Date.now();
+	let bucket = buckets.get(key);
+	if (!bucket) {
+		bucket = { tokens: capacity(limit), updatedAt: now, waiters: [], timer: null };
+		buckets.set(key, bucket);
+	}
+	refill(bucket, limit, now);
+	if (bucket.waiters.length === 0 && bucket.tokens >= 1) {
+		bucket.tokens--;
+		return "allowed";
+	}
+
+	const overflow = limit.overflow ?? "drop";
+	if (overflow === "sample") return random() < (limit.sampleRate ?? DEFAULT_SAMPLE_RATE) ? "sampled" : "dropped";
+	if (overflow !== "queue" || bucket.waiters.length >= (limit.maxQueue ?? DEFAULT_MAX_QUEUE)) return "dropped";
+
+	const queued = bucket;
+	return new Promise<Admission>((resolve) => {
+		queued.waiters.push((admitted) => resolve(admitted ? "queued" : "dropped"));
+		scheduleWaiters(queued, limit);
+	});
+}
+
+/**
+ * The first limit whose pattern matches `value`.
+ */
+export function resolveLimit(
+	limits: Record<Pattern, RateLimit> | undefined,
+	value: string,
+): { pattern: Pattern; limit: RateLimit } | undefined {
+	for (const [pattern, limit] of Object.entries(limits || {})) {
+		if (matchesPattern(pattern, value)) return { pattern, limit };
+	}
+	return undefined;
+}
+
+/**
+ * Forget every bucket. Deliveries still waiting in a queue are dropped.
+ */
+export function resetRateLimits(): void {
+	for (const bucket of buckets.values()) {
+		if (bucket.timer) clearTimeout(bucket.timer);
+		for (const release of bucket.waiters.splice(0)) release(false);
+	}
+	buckets.clear();
+}
+
+/**
+ * Returns human-readable problems with a rate limit; an empty list means it is valid.
+ */
+export function validateRateLimit(limit: RateLimit): string[] {
+	if (!limit || typeof limit !== "object") return ["must be an object"];
+	const problems: string[] = [];
+	if (typeof limit.rate !== "number" || !(limit.rate > 0)) problems.push("rate must be a positive number");
+	if (limit.intervalMs !== undefined && (typeof limit.intervalMs !== "number" || !(limit.intervalMs > 0))) {
+		problems.push("intervalMs must be a positive number");
+	}
+	if (limit.burst !== undefined && (typeof limit.burst !== "number" || limit.burst < 1)) {
+		problems.push("burst must be a number of at least 1");
+	}
+	if (limit.overflow !== undefined && !RATE_LIMIT_OVERFLOWS.includes(limit.overflow)) {
+		problems.push(`overflow must be one of ${RATE_LIMIT_OVERFLOWS.join(", ")}`);
+	}
+	if (
+		limit.sampleRate !== undefined &&
+		(typeof limit.sampleRate !== "number" || limit.sampleRate < 0 || limit.sampleRate > 1)
+	) {
+		problems.push("sampleRate must be a number between 0 and 1");
+	}
+	if (limit.maxQueue !== undefined && (!Number.isInteger(limit.maxQueue) || limit.maxQueue < 1)) {
+		problems.push("maxQueue must be a positive integer");
+	}
+	return problems;
+}
@@ -0,0 +1,80 @@
+// src/retry.ts
+
+import { matchesPattern } from "./match.js";
+import type { RetryPolicy } from "./types.js";
+
+const DEFAULT_BASE_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 30_000;
+const DEFAULT_JITTER = 0.2;
+
+/**
+ * Whether an error may be retried under the policy. Without `retryOn` every error is retryable;
+ * otherwise one of the patterns must match the error's message, name or code.
+ */
+export function isRetryable(policy: RetryPolicy, err: unknown): boolean {
+	if (!policy.retryOn || policy.retryOn.length === 0) return true;
+	const error = err as { message?: unknown; name?: unknown; code?: unknown } | null;
+	const candidates = [error?.message ?? String(err), error?.name, error?.code]
+		.filter((value) => value !== undefined && value !== null)
+		.map(String);
+	return policy.retryOn.some((pattern) => candidates.some((value) => matchesPattern(pattern, value)));
+}
+
+/**
+ * Delay before retry number `retry` (1-based): exponential backoff from `baseDelayMs`,
+ * capped at `maxDelayMs`, then spread by up to ±`jitter` of itself.
+ */
+export function retryDelay(policy: RetryPolicy, retry: number, random: () => number = Math.random): number {
+	const base = policy.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+	const max = policy.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+	const jitter = policy.jitter ?? DEFAULT_JITTER;
+	const delay = Math.min(max, base * 2 ** (retry - 1));
+	return Math.max(0, Math.round(delay * (1 + jitter * (random() * 2 - 1))));
+}
+
+/**
+ * Call `fn` until it succeeds, the error is not retryable, or `maxAttempts` is used up.
+ * `onRetry` is called before each wait. `retryable` can rule out further errors the policy would retry.
+ * The last error is rethrown.
+ */
+export async function withRetry<T>(
+	fn: () => Promise<T>,
+	policy: RetryPolicy | undefined,
+	onRetry?: (attempt: number, err: unknown, delayMs: number) => void,
+	retryable: (err: unknown) => boolean = () => true,
+): Promise<T> {
+	const maxAttempts = Math.max(1, policy?.maxAttempts ?? 1);
+	for (let attempt = 1; ; attempt++) {
+		try {
+			return await fn();
+		} catch (err) {
+			if (!policy || attempt >= maxAttempts || !isRetryable(policy, err) || !retryable(err)) throw err;
+			const delayMs = retryDelay(policy, attempt);
+			onRetry?.(attempt, err, delayMs);
+			await new Promise((resolve) => setTimeout(resolve, delayMs));
+		}
+	}
+}
+
+/**
+ * Returns human-readable problems with a retry policy; an empty list means it is valid.
+ */
+export function validateRetryPolicy(policy: RetryPolicy): string[] {
+	const problems: string[] = [];
+	if (policy.maxAttempts !== undefined && (!Number.isInteger(policy.maxAttempts) || policy.maxAttempts < 1)) {
+		problems.push("maxAttempts must be a positive integer");
+	}
+	for (const field of ["baseDelayMs", "maxDelayMs"] as const) {
+		const value = policy[field];
+		if (value !== undefined && (typeof value !== "number" || value < 0)) {
+			problems.push(`${field} must be a non-negative number`);
+		}
+	}
+	if (policy.jitter !== undefined && (typeof policy.jitter !== "number" || policy.jitter < 0 || policy.jitter > 1)) {
+		problems.push("jitter must be a number between 0 and 1");
+	}
+	if (policy.retryOn !== undefined && !Array.isArray(policy.retryOn)) {
+		problems.push("retryOn must be an array of patterns");
+	}
+	return problems;
+}
@@ -0,0 +1,231 @@
+// src/schedule.ts
+
+import type { Route, RouteSchedule, Weekday } from "./types.js";
+
+const WEEKDAYS: Weekday[] = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+const TIME_OF_DAY = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const MINUTE_MS = 60_000;
+const WINDOW_SEARCH_MINUTES = 8 * 24 * 60;
+
+interface ZonedTime {
+	minute: number;
+	hour: number;
+	dayOfMonth: number;
+	month: number;
+	dayOfWeek: number; // 0 = Sunday
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string | undefined): Intl.DateTimeFormat {
+	const key = timezone ?? "";
+	let formatter = formatters.get(key);
+	if (!formatter) {
+		formatter = new Intl.DateTimeFormat("en-US", {
+			timeZone: timezone,
+			hourCycle: "h23",
+			weekday: "short",
+			month: "numeric",
+			day: "numeric",
+			hour: "numeric",
+			minute: "numeric",
+		});
+		formatters.set(key, formatter);
+	}
+	return formatter;
+}
+
+function getZonedTime(now: Date, timezone: string | undefined): ZonedTime {
+	const parts: Record<string, string> = {};
+	for (const part of getFormatter(timezone).formatToParts(now)) {
+		parts[part.type] = part.value;
+	}
+	return {
+		minute: Number(parts.minute),
+		hour: Number(parts.hour),
+		dayOfMonth: Number(parts.day),
+		month: Number(parts.month),
+		dayOfWeek: WEEKDAYS.indexOf(parts.weekday.toLowerCase().slice(0, 3) as Weekday),
+	};
+}
+
+function parseTimeOfDay(value: string): number | null {
+	const match = TIME_OF_DAY.exec(value);
+	return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+/**
+ * Expand one cron field (`*`, `5`, `1-5`, `1,3`, `*\/15`, `0-30/10`) into the set of values it allows.
+ * Throws on syntax errors or out-of-range values.
+ */
+function parseCronField(field: string, min: number, max: number): Set<number> {
+	const values = new Set<number>();
+	for (const item of field.split(",")) {
+		const [range, stepText] = item.split("/");
+		const step = stepText === undefined ? 1 : Number(stepText);
+		if (!Number.isInteger(step) || step < 1) throw new Error(`invalid step in "${item}"`);
+
+		let from = min;
+		let to = max;
+		if (range !== "*") {
+			const [startText, endText] = range.split("-");
+			from = Number(startText);
+			to = endText === undefined ? (stepText === undefined ? from : max) : Number(endText);
+		}
+		if (!Number.isInteger(from) || !Number.isInteger(to) || from < min || to > max || from > to) {
+			throw new Error(`"${item}" is out of range ${min}-${max}`);
+		}
+		for (let value = from; value <= to; value += step) values.add(value);
+	}
+	return values;
+}
+
+interface CronWindow {
+	minutes: Set<number>;
+	hours: Set<number>;
+	daysOfMonth: Set<number>;
+	months: Set<number>;
+	daysOfWeek: Set<number>;
+	restrictsDayOfMonth: boolean;
+	restrictsDayOfWeek: boolean;
+}
+
+const cronCache = new Map<string, CronWindow>();
+
+function parseCron(expression: string): CronWindow {
+	const cached = cronCache.get(expression);
+	if (cached) return cached;
+
+	const fields = expression.trim().split(/\s+/);
+	if (fields.length !== 5) throw new Error("cron expression must have five fields");
+	const daysOfWeek = parseCronField(fields[4], 0, 7);
+	if (daysOfWeek.has(7)) daysOfWeek.add(0);
+	const window: CronWindow = {
+		minutes: parseCronField(fields[0], 0, 59),
+		hours: parseCronField(fields[1], 0, 23),
+		daysOfMonth: parseCronField(fields[2], 1, 31),
+		months: parseCronField(fields[3], 1, 12),
+		daysOfWeek,
+		restrictsDayOfMonth: fields[2] !== "*",
+		restrictsDayOfWeek: fields[4] !== "*",
+	};
+	cronCache.set(expression, window);
+	return window;
+}
+
+function matchesCron(window: CronWindow, time: ZonedTime): boolean {
+	if (!window.minutes.has(time.minute) || !window.hours.has(time.hour) || !window.months.has(time.month)) {
+		return false;
+	}
+	const dayOfMonth = window.daysOfMonth.has(time.dayOfMonth);
+	const dayOfWeek = window.daysOfWeek.has(time.dayOfWeek);
+	// Standard cron: when both day fields are restricted, either may match.
+	if (window.restrictsDayOfMonth && window.restrictsDayOfWeek) return dayOfMonth || dayOfWeek;
+	return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * True when `now` falls inside the schedule. Invalid schedules are never active.
+ */
+export function isScheduleActive(schedule: RouteSchedule, now: Date = new Date()): boolean {
+	try {
+		const time = getZonedTime(now, schedule.timezone);
+
+		if (schedule.days && schedule.days.length > 0 && !schedule.days.includes(WEEKDAYS[time.dayOfWeek])) {
+			return false;
+		}
+
+		if (schedule.start || schedule.end) {
+			const start = schedule.start ? parseTimeOfDay(schedule.start) : 0;
+			const end = schedule.end ? parseTimeOfDay(schedule.end) : 24 * 60;
+			if (start === null || end === null) return false;
+			const minuteOfDay = time.hour * 60 + time.minute;
+			const inWindow =
+				start <= end ? minuteOfDay >= start && minuteOfDay < end : minuteOfDay >= start || minuteOfDay < end;
+			if (!inWindow) return false;
+		}
+
+		if (schedule.cron && !matchesCron(parseCron(schedule.cron), time)) return false;
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+// Next window start per schedule, reused until that time comes
+const nextWindowCache = new WeakMap<RouteSchedule, { from: number; start: number }>();
+
+/**
+ * When the schedule is next active: `now` if it already is, otherwise the start of the first active minute
+ * within the next eight days. Null when there is no such minute or the schedule is invalid.
+ */
+export function nextWindowStart(schedule: RouteSchedule, now: Date = new Date()): Date | null {
+	if (isScheduleActive(schedule, now)) return now;
+	const time = now.getTime();
+	const cached = nextWindowCache.get(schedule);
+	if (cached && cached.from <= time && time < cached.start) return new Date(cached.start);
+	const minute = Math.floor(time / MINUTE_MS) * MINUTE_MS;
+	for (let i = 1; i <= WINDOW_SEARCH_MINUTES; i++) {
+		const start = minute + i * MINUTE_MS;
+		if (isScheduleActive(schedule, new Date(start))) {
+			nextWindowCache.set(schedule, { from: time, start });
+			return new Date(start);
+		}
+	}
+	return null;
+}
+
+/**
+ * The sessions a route delivers to inside its window: its `primaryTarget`, or else its `targetSessions`.
+ */
+export function routeTargets(route: Route): string[] {
+	return route.primaryTarget ? [route.primaryTarget] : route.targetSessions || [];
+}
+
+/**
+ * Targets for a route right now: `primaryTarget` or `targetSessions` inside its schedule window, and outside it
+ * `schedule.outsideTargets`, or the same targets again when messages are held until the window opens.
+ */
+export function resolveScheduledTargets(route: Route, now: Date = new Date()): string[] {
+	if (!route.schedule || route.schedule.holdOutside || isScheduleActive(route.schedule, now)) {
+		return routeTargets(route);
+	}
+	return route.schedule.outsideTargets || [];
+}
+
+/**
+ * Returns human-readable problems with a schedule; an empty list means it is valid.
+ */
+export function validateSchedule(schedule: RouteSchedule): string[] {
+	const problems: string[] = [];
+	if (schedule.timezone !== undefined) {
+		try {
+			getFormatter(schedule.timezone);
+		} catch {
+			problems.push(`timezone "${schedule.timezone}" is not a valid IANA timezone`);
+		}
+	}
+	for (const day of schedule.days ?? []) {
+		if (!WEEKDAYS.includes(day)) problems.push(`days contains unknown day "${day}"`);
+	}
+	for (const field of ["start", "end"] as const) {
+		const value = schedule[field];
+		if (value !== undefined && parseTimeOfDay(value) === null) {
+			problems.push(`${field} must be a time of day as HH:MM`);
+		}
+	}
+	if (schedule.holdOutside !== undefined && typeof schedule.holdOutside !== "boolean") {
+		problems.push("holdOutside must be a boolean");
+	}
+	if (schedule.holdOutside && schedule.outsideTargets) {
+		problems.push("holdOutside and outsideTargets cannot both be set");
+	}
+	if (schedule.cron !== undefined) {
+		try {
+			parseCron(schedule.cron);
+		} catch (err) {
+			problems.push(`cron is invalid: ${err instanceof Error ? err.message : String(err)}`);
+		}
+	}
+	return problems;
+}
@@ -3,8 +3,26 @@
 export interface RoutingStats {
 	messagesRouted: number;
 	routeHits: Record<string, number>; // key: "sourceSession->targetSession", value: hit count
-	errors: number;
+	errors: number; // failed deliveries, not counting timeouts
+	timeouts: number; // deliveries whose last attempt timed out
 	outgoingRouted: number;
+	retries: number; // retry attempts made
+	retrySucceeded: number; // deliveries that succeeded after at least one retry
+	retryExhausted: number; // deliveries that failed after being retried
+	rateLimitDropped: number; // deliveries skipped because their rate limit was exceeded
+	rateLimitQueued: number; // deliveries that waited for a token
+	rateLimitSampled: number; // overflowing deliveries let through by sampling
+	rateLimitOverflows: Record<string, number>; // key: limit, e.g. "session:billing", value: overflow count
+	duplicatesSuppressed: number;
+	loopsRejected: number; // deliveries refused because they would loop or exceed the hop limit
+	circuitRejected: number; // deliveries kept as dead letters because their target's circuit was open
+	failovers: number; // deliveries taken by a fallback target after the target before it failed
+	gathersCompleted: number; // scatter-gathers that merged at least one reply
+	gatherTimeouts: number; // scatter-gather targets or aggregators that did not reply in time
+	digestsDelivered: number; // digests handed to their route's targets
+	messagesDigested: number; // messages collected into digests
+	deliveriesDelayed: number; // deliveries held back by a route's delay or schedule
+	strategySelections: Record<string, Record<string, number>>; // key: route, e.g. "route:workers", then target
 	startedAt: number;
 }
 
@@ -12,7 +30,25 @@ let stats: RoutingStats = {
 	messagesRouted: 0,
 	routeHits: {},
 	errors: 0,
+	timeouts: 0,
 	outgoingRouted: 0,
+	retries: 0,
+	retrySucceeded: 0,
+	retryExhausted: 0,
+	rateLimitDropped: 0,
+	rateLimitQueued: 0,
+	rateLimitSampled: 0,
+	rateLimitOverflows: {},
+	duplicatesSuppressed: 0,
+	loopsRejected: 0,
+	circuitRejected: 0,
+	failovers: 0,
+	gathersCompleted: 0,
+	gatherTimeouts: 0,
+	digestsDelivered: 0,
+	messagesDigested: 0,
+	deliveriesDelayed: 0,
+	strategySelections: {},
 	startedAt: Date.now(),
 };
 
@@ -21,7 +57,27 @@ export function getStats(): Readonly<RoutingStats> {
 		messagesRouted: stats.messagesRouted,
 		routeHits: { ...stats.routeHits },
 		errors: stats.errors,
+		timeouts: stats.timeouts,
 		outgoingRouted: stats.outgoingRouted,
+		retries: stats.retries,
+		retrySucceeded: stats.retrySucceeded,
+		retryExhausted: stats.retryExhausted,
+		rateLimitDropped: stats.rateLimitDropped,
+		rateLimitQueued: stats.rateLimitQueued,
+		rateLimitSampled: stats.rateLimitSampled,
+		rateLimitOverflows: { ...stats.rateLimitOverflows },
+		duplicatesSuppressed: stats.duplicatesSuppressed,
+		loopsRejected: stats.loopsRejected,
+		circuitRejected: stats.circuitRejected,
+		failovers: stats.failovers,
+		gathersCompleted: stats.gathersCompleted,
+		gatherTimeouts: stats.gatherTimeouts,
+		digestsDelivered: stats.digestsDelivered,
+		messagesDigested: stats.messagesDigested,
+		deliveriesDelayed: stats.deliveriesDelayed,
+		strategySelections: Object.fromEntries(
+			Object.entries(stats.strategySelections).map(([route, targets]) => [route, { ...targets }]),
+		),
 		startedAt: stats.startedAt,
 	};
 }
@@ -43,12 +99,95 @@ export function incrementErrors(): void {
 	stats.errors++;
 }
 
+export function incrementTimeouts(): void {
+	stats.timeouts++;
+}
+
+export function incrementRetries(): void {
+	stats.retries++;
+}
+
+export function incrementRetrySucceeded(): void {
+	stats.retrySucceeded++;
+}
+
+export function incrementRetryExhausted(): void {
+	stats.retryExhausted++;
+}
+
+export function incrementDuplicatesSuppressed(): void {
+	stats.duplicatesSuppressed++;
+}
+
+export function incrementLoopsRejected(): void {
+	stats.loopsRejected++;
+}
+
+export function incrementCircuitRejected(): void {
+	stats.circuitRejected++;
+}
+
+export function incrementFailovers(): void {
+	stats.failovers++;
+}
+
+export function incrementGathersCompleted(): void {
+	stats.gathersCompleted++;
+}
+
+export function incrementGatherTimeouts(): void {
+	stats.gatherTimeouts++;
+}
+
+export function incrementDigestsDelivered(): void {
+	stats.digestsDelivered++;
+}
+
+export function incrementMessagesDigested(): void {
+	stats.messagesDigested++;
+}
+
+export function incrementDeliveriesDelayed(): void {
+	stats.deliveriesDelayed++;
+}
+
+export function recordStrategySelection(route: string, target: string): void {
+	const targets = stats.strategySelections[route] || {};
+	targets[target] = (targets[target] || 0) + 1;
+	stats.strategySelections[route] = targets;
+}
+
+export function recordRateLimitOverflow(limit: string, outcome: "dropped" | "queued" | "sampled"): void {
+	if (outcome === "dropped") stats.rateLimitDropped++;
+	else if (outcome === "queued") stats.rateLimitQueued++;
+	else stats.rateLimitSampled++;
+	stats.rateLimitOverflows[limit] = (stats.rateLimitOverflows[limit] || 0) + 1;
+}
+
 export function resetStats(): void {
 	stats = {
 		messagesRouted: 0,
 		routeHits: {},
 		errors: 0,
+		timeouts: 0,
 		outgoingRouted: 0,
+		retries: 0,
+		retrySucceeded: 0,
+		retryExhausted: 0,
+		rateLimitDropped: 0,
+		rateLimitQueued: 0,
+		rateLimitSampled: 0,
+		rateLimitOverflows: {},
+		duplicatesSuppressed: 0,
+		loopsRejected: 0,
+		circuitRejected: 0,
+		failovers: 0,
+		gathersCompleted: 0,
+		gatherTimeouts: 0,
+		digestsDelivered: 0,
+		messagesDigested: 0,
+		deliveriesDelayed: 0,
+		strategySelections: {},
 		startedAt: Date.now(),
 	};
 }
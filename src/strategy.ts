@@ -0,0 +1,71 @@
+// src/strategy.ts
+
+import type { RouteStrategy } from "./types.js";
+
+export const ROUTE_STRATEGIES = ["broadcast", "round-robin", "random", "weighted", "least-recently-used"];
+
+// Next round-robin position per route
+const positions = new Map<string, number>();
+// When each target was last picked per route, as a sequence number rather than a timestamp so ties cannot happen
+const lastPicked = new Map<string, Map<string, number>>();
+let pickCount = 0;
+
+function pickWeighted(targets: string[], weights: Record<string, number> | undefined, random: () => number): string {
+	const weightOf = (target: string): number => Math.max(0, weights?.[target] ?? 1);
+	const total = targets.reduce((sum, target) => sum + weightOf(target), 0);
+	if (!(total > 0)) return targets[Math.floor(random() * targets.length)];
+	let remaining = random() * total;
+	for (const target of targets) {
+		remaining -= weightOf(target);
+		if (remaining < 0) return target;
+	}
+	return targets[targets.length - 1];
+}
+
+function pickLeastRecentlyUsed(key: string, targets: string[]): string {
+	const picked = lastPicked.get(key);
+	let choice = targets[0];
+	for (const target of targets) {
+		if ((picked?.get(target) ?? -1) < (picked?.get(choice) ?? -1)) choice = target;
+	}
+	return choice;
+}
+
+/**
+ * The targets a message goes to under a route's strategy: all of them for `broadcast`, otherwise exactly one.
+ * `key` identifies the route, so each route keeps its own rotation and history.
+ */
+export function selectTargets(
+	key: string,
+	strategy: RouteStrategy | undefined,
+	targets: string[],
+	weights?: Record<string, number>,
+	random: () => number = Math.random,
+): string[] {
+	if (!strategy || strategy === "broadcast" || targets.length === 0) return targets;
+	let choice: string;
+	if (strategy === "round-robin") {
+		const position = positions.get(key) ?? 0;
+		choice = targets[position % targets.length];
+		positions.set(key, position + 1);
+	} else if (strategy === "random") {
+		choice = targets[Math.floor(random() * targets.length)];
+	} else if (strategy === "weighted") {
+		choice = pickWeighted(targets, weights, random);
+	} else {
+		choice = pickLeastRecentlyUsed(key, targets);
+	}
+	let picked = lastPicked.get(key);
+	if (!picked) {
+		picked = new Map();
+		lastPicked.set(key, picked);
+	}
+	picked.set(choice, pickCount++);
+	return [choice];
+}
+
+export function resetStrategies(): void {
+	positions.clear();
+	lastPicked.clear();
+	pickCount = 0;
+}
@@ -0,0 +1,54 @@
+// src/template.ts
+
+const PLACEHOLDER = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+/**
+ * Values available to route templates. Missing values render as empty strings.
+ */
+export interface TemplateVars {
+	message: string;
+	session: string;
+	target?: string;
+	"channel.type"?: string;
+	"channel.id"?: string;
+	timestamp: string;
+	route?: string;
+}
+
+export const TEMPLATE_PLACEHOLDERS: ReadonlyArray<keyof TemplateVars> = [
+	"message",
+	"session",
+	"target",
+	"channel.type",
+	"channel.id",
+	"timestamp",
+	"route",
+];
+
+/**
+ * Replace `{{placeholder}}` markers with their values. Unknown placeholders are left as-is.
+ * Templates with a different set of placeholders, such as digest headers, pass their own list.
+ */
+export function renderTemplate(
+	template: string,
+	vars: TemplateVars | Readonly<Record<string, string | undefined>>,
+	placeholders: readonly string[] = TEMPLATE_PLACEHOLDERS,
+): string {
+	return template.replace(PLACEHOLDER, (marker, name: string) => {
+		if (!placeholders.includes(name)) return marker;
+		return (vars as Record<string, string | undefined>)[name] ?? "";
+	});
+}
+
+/**
+ * Returns human-readable problems with a template; an empty list means it is valid.
+ */
+export function validateTemplate(template: string, placeholders: readonly string[] = TEMPLATE_PLACEHOLDERS): string[] {
+	const problems: string[] = [];
+	for (const [, name] of template.matchAll(PLACEHOLDER)) {
+		if (!placeholders.includes(name)) {
+			problems.push(`unknown placeholder "{{${name}}}"; expected one of ${placeholders.join(", ")}`);
+		}
+	}
+	return problems;
+}
@@ -0,0 +1,26 @@
+// src/timeout.ts
+
+/**
+ * A delivery that did not settle in time. Its `code` is `ETIMEDOUT`, so retry policies can match it.
+ */
+export class DeliveryTimeoutError extends Error {
+	readonly code = "ETIMEDOUT";
+
+	constructor(readonly timeoutMs: number) {
+		super(`Delivery timed out after ${timeoutMs}ms`);
+		this.name = "DeliveryTimeoutError";
+	}
+}
+
+/**
+ * Settle like `promise`, or reject with a DeliveryTimeoutError once `timeoutMs` has passed.
+ * The underlying work is not cancelled. Without a positive timeout the promise is returned as is.
+ */
+export function withTimeout<T>(promise: Promise<T>, timeoutMs: number | undefined): Promise<T> {
+	if (!timeoutMs || timeoutMs <= 0) return promise;
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	const timeout = new Promise<never>((_, reject) => {
+		timer = setTimeout(() => reject(new DeliveryTimeoutError(timeoutMs)), timeoutMs);
+	});
+	return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
@@ -0,0 +1,133 @@
+// src/transforms.ts
+
+import { toRegExp } from "./match.js";
+import type { RedactPreset, Transform } from "./types.js";
+
+const REDACT_PRESETS: Record<RedactPreset, RegExp> = {
+	email: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+	phone: /(?<![\w+])\+?\d[\d\s().-]{6,}\d(?!\w)/g,
+	apiKey:
+		/\b(?:sk|pk|rk)[-_](?:live[-_]|test[-_])?[A-Za-z0-9]{16,}\b|\bAKIA[0-9A-Z]{16}\b|\bgh[pousr]_[A-Za-z0-9]{36,}\b|\bxox[abposr]-[A-Za-z0-9-]{10,}\b/g,
+};
+
+// Discord user/role/channel mentions, Slack broadcasts and plain @handles (but not email addresses)
+const MENTION = /<[@#][!&]?\d+>|<!(?:here|channel|everyone)>|(?<![\w@])@[\w.-]*\w/g;
+
+const DEFAULT_REPLACEMENT = "[REDACTED]";
+const DEFAULT_TRUNCATE_SUFFIX = "…";
+
+// Compiled custom redact patterns, keyed by source string. `null` marks a pattern that failed to compile.
+const compiledRedactions = new Map<string, RegExp | null>();
+
+/**
+ * Called the first time a custom redact pattern fails to compile. From then on the step replaces the whole
+ * message, so nothing it was meant to scrub gets through.
+ */
+export type InvalidPatternHandler = (pattern: string, error: string) => void;
+
+function compileRedaction(pattern: string, onInvalid?: InvalidPatternHandler): RegExp | null {
+	const cached = compiledRedactions.get(pattern);
+	if (cached !== undefined) return cached;
+
+	let regex: RegExp | null;
+	try {
+		regex = toRegExp(pattern, "g");
+	} catch (err) {
+		regex = null;
+		onInvalid?.(pattern, err instanceof Error ? err.message : String(err));
+	}
+	compiledRedactions.set(pattern, regex);
+	return regex;
+}
+
+function redact(
+	message: string,
+	transform: Extract<Transform, { type: "redact" }>,
+	onInvalid?: InvalidPatternHandler,
+): string {
+	const replacement = transform.replacement ?? DEFAULT_REPLACEMENT;
+	if (transform.pattern) {
+		const pattern = compileRedaction(transform.pattern, onInvalid);
+		// Fail closed: a pattern that does not compile cannot tell what to keep
+		return pattern ? message.replace(pattern, replacement) : replacement;
+	}
+	const preset = transform.preset ? REDACT_PRESETS[transform.preset] : undefined;
+	return preset ? message.replace(preset, replacement) : message;
+}
+
+function applyTransform(message: string, transform: Transform, onInvalid?: InvalidPatternHandler): string {
+	switch (transform.type) {
+		case "redact":
+			return redact(message, transform, onInvalid);
+		case "truncate": {
+			if (message.length <= transform.maxLength) return message;
+			const suffix = transform.suffix ?? DEFAULT_TRUNCATE_SUFFIX;
+			return message.slice(0, Math.max(0, transform.maxLength - suffix.length)) + suffix;
+		}
+		case "normalizeWhitespace":
+			return message
+				.replace(/[ \t\f\v\u00a0]+/g, " ")
+				.replace(/ ?\r?\n ?/g, "\n")
+				.replace(/\n{3,}/g, "\n\n")
+				.trim();
+		case "stripMentions":
+			return message
+				.replace(MENTION, "")
+				.replace(/[ \t]{2,}/g, " ")
+				.trim();
+		default:
+			return message;
+	}
+}
+
+/**
+ * Run a message through a route's transforms, in order. A redact step whose pattern does not compile
+ * replaces the whole message with its replacement.
+ */
+export function applyTransforms(
+	message: string,
+	transforms: Transform[] | undefined,
+	onInvalid?: InvalidPatternHandler,
+): string {
+	if (!transforms) return message;
+	return transforms.reduce((result, transform) => applyTransform(result, transform, onInvalid), message);
+}
+
+/**
+ * Returns human-readable problems with a transform pipeline; an empty list means it is valid.
+ */
+export function validateTransforms(transforms: Transform[]): string[] {
+	if (!Array.isArray(transforms)) return ["must be an array"];
+	const problems: string[] = [];
+	transforms.forEach((transform, i) => {
+		const label = `[${i}]`;
+		switch (transform?.type) {
+			case "redact":
+				if (!transform.pattern && !transform.preset) {
+					problems.push(`${label} needs a "preset" or a "pattern"`);
+				}
+				if (transform.preset && !(transform.preset in REDACT_PRESETS)) {
+					problems.push(`${label}.preset must be one of ${Object.keys(REDACT_PRESETS).join(", ")}`);
+				}
+				if (transform.pattern) {
+					try {
+						toRegExp(transform.pattern, "g");
+					} catch (err) {
+						problems.push(`${label}.pattern is invalid: ${err instanceof Error ? err.message : String(err)}`);
+					}
+				}
+				break;
+			case "truncate":
+				if (typeof transform.maxLength !== "number" || transform.maxLength < 1) {
+					problems.push(`${label}.maxLength must be a positive number`);
+				}
+				break;
+			case "normalizeWhitespace":
+			case "stripMentions":
+				break;
+			default:
+				problems.push(`${label}.type must be one of redact, truncate, normalizeWhitespace, stripMentions`);
+		}
+	});
+	return problems;
+}
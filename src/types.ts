@@ -0,0 +1,431 @@
+// src/types.ts
+// Plugin-specific types (not in @wopr-network/plugin-types)
+
+/**
+ * A session or channel matcher. Plain strings match exactly, strings containing
+ * `*` or `?` are globs, and `/.../flags` strings are regular expressions.
+ */
+export type Pattern = string;
+
+/**
+ * Conditions on the message text. Every condition that is set must hold.
+ */
+export interface ContentMatch {
+	/** Substring that must appear in the message */
+	contains?: string;
+	/** At least one of these words must appear as a whole word */
+	keywords?: string[];
+	/** Regular expression, either bare (`refund|chargeback`) or as `/source/flags` */
+	regex?: string;
+	minLength?: number;
+	maxLength?: number;
+	/** Message must start with this command, e.g. `!billing` */
+	commandPrefix?: string;
+	/** Case-sensitive `contains`, `keywords` and `commandPrefix` checks (default false) */
+	caseSensitive?: boolean;
+}
+
+/**
+ * Field conditions that must all hold. This is the leaf of a match expression
+ * and also the flat shorthand accepted directly on routes.
+ */
+export interface FieldPredicate {
+	sourceSession?: Pattern;
+	channelType?: Pattern;
+	channelId?: Pattern;
+	content?: ContentMatch;
+}
+
+export type MatchExpression =
+	| FieldPredicate
+	| { all: MatchExpression[] }
+	| { any: MatchExpression[] }
+	| { not: MatchExpression };
+
+/**
+ * Controls the order routes are evaluated in and whether later routes still run.
+ */
+export interface RouteOrdering {
+	/** Higher priorities run first; routes with equal priority keep config order (default 0) */
+	priority?: number;
+	/** Stop evaluating lower-priority routes once this route matches */
+	final?: boolean;
+	/** Run only when no non-fallback route matched */
+	fallback?: boolean;
+}
+
+/**
+ * What happens to the original message once a route matches:
+ * - `copy`: targets get a copy and the source session still processes it (default)
+ * - `divert`: targets get the message and the source session does not
+ * - `drop`: nobody gets the message
+ * - `scatter-gather`: targets get the message, and their replies are merged into one reply to the original channel
+ *   instead of the source session processing it
+ */
+export type RouteMode = "copy" | "divert" | "drop" | "scatter-gather";
+
+/**
+ * Which of a route's targets get each message:
+ * - `broadcast`: all of them (default)
+ * - `round-robin`: one, taking turns in order
+ * - `random`: one, chosen at random
+ * - `weighted`: one, chosen at random in proportion to `weights`
+ * - `least-recently-used`: one, the target this route picked longest ago
+ */
+export type RouteStrategy = "broadcast" | "round-robin" | "random" | "weighted" | "least-recently-used";
+
+/**
+ * What keeps a conversation on one target:
+ * - `channelId`: the message's channel id
+ * - `channel`: the message's channel type and id together
+ * - `session`: the source session
+ */
+export type AffinityKey = "channelId" | "channel" | "session";
+
+/**
+ * Sticky routing for a load-balancing route: messages with the same key value go to the same target.
+ */
+export interface AffinityConfig {
+	key: AffinityKey;
+	/** Forget a key's target after this many milliseconds without messages (default: never) */
+	ttlMs?: number;
+}
+
+export type Weekday = "mon" | "tue" | "wed" | "thu" | "fri" | "sat" | "sun";
+
+/**
+ * When a route is active. Every condition that is set must hold.
+ */
+export interface RouteSchedule {
+	/** IANA timezone the window is evaluated in, e.g. `Europe/Berlin` (default: host timezone) */
+	timezone?: string;
+	days?: Weekday[];
+	/** Window start as `HH:MM`, inclusive */
+	start?: string;
+	/** Window end as `HH:MM`, exclusive; an end before the start wraps past midnight */
+	end?: string;
+	/** Five-field cron expression; the route is active during every minute it matches */
+	cron?: string;
+	/** Targets used outside the window. When unset, the route does not match outside the window. */
+	outsideTargets?: string[];
+	/** Hold messages that arrive outside the window and deliver them to `targetSessions` once it opens */
+	holdOutside?: boolean;
+}
+
+export type RedactPreset = "email" | "phone" | "apiKey";
+
+/**
+ * One step of a route's transform pipeline, applied in order before delivery.
+ */
+export type Transform =
+	| {
+			type: "redact";
+			/** Built-in pattern to redact */
+			preset?: RedactPreset;
+			/** Custom regex, bare or as `/source/flags`; always replaces every occurrence */
+			pattern?: string;
+			/** Replacement text (default `[REDACTED]`) */
+			replacement?: string;
+	  }
+	| { type: "truncate"; maxLength: number; suffix?: string }
+	| { type: "normalizeWhitespace" }
+	| { type: "stripMentions" };
+
+export interface Route extends FieldPredicate, RouteOrdering {
+	/** Label shown in listings and available to templates as `{{route}}` */
+	name?: string;
+	targetSessions?: string[];
+	/** Single session to deliver to instead of `targetSessions`, typically with `fallbackTargets` */
+	primaryTarget?: string;
+	/** Sessions tried in order when delivering to a target fails or its circuit is open */
+	fallbackTargets?: string[];
+	mode?: RouteMode;
+	strategy?: RouteStrategy;
+	/** Relative share of messages per target session for the `weighted` strategy (default 1) */
+	weights?: Record<string, number>;
+	/** Send messages with the same channel or source to the same target, chosen by consistent hashing */
+	affinity?: AffinityConfig;
+	/** Deliver without holding up the source session, overriding `fanOut.background` */
+	background?: boolean;
+	/** Retry failed injects, overriding the config-wide `retry` */
+	retry?: RetryPolicy;
+	/** Give up on an inject attempt after this many milliseconds, overriding the config-wide `timeoutMs` */
+	timeoutMs?: number;
+	/** Hold matched messages for this many milliseconds before injecting them */
+	delayMs?: number;
+	/** Limit how many messages this route forwards */
+	rateLimit?: RateLimit;
+	schedule?: RouteSchedule;
+	/** Applied to the message before the template */
+	transforms?: Transform[];
+	/** Wrap injected messages, e.g. `[{{channel.type}}#{{channel.id}} via {{session}}] {{message}}` */
+	template?: string;
+	/** Collect matching messages and deliver them to the targets as one combined message */
+	digest?: DigestConfig;
+	/** How the `scatter-gather` mode waits for and merges the targets' replies */
+	gather?: GatherConfig;
+	/** Expression evaluated in addition to the flat fields */
+	match?: MatchExpression;
+}
+
+/**
+ * Batching of a route's messages into digests. Each source session gets its own digest.
+ */
+export interface DigestConfig {
+	/** Deliver the digest this long after its first message (default 60000) */
+	windowMs?: number;
+	/** Deliver the digest as soon as it holds this many messages (default 50) */
+	maxMessages?: number;
+	/** First line of the digest, with `{{count}}`, `{{session}}`, `{{route}}`, `{{start}}` and `{{end}}` */
+	header?: string;
+	/** How each message is listed, with the same placeholders as `template` (default `- {{message}}`) */
+	format?: string;
+}
+
+/**
+ * How a `scatter-gather` route merges its targets' replies:
+ * - `concat`: every reply, each under its session's name (default)
+ * - `first`: the first reply to arrive
+ * - `aggregate`: the reply of the `aggregator` session, asked to merge the replies
+ */
+export type GatherMerge = "concat" | "first" | "aggregate";
+
+export interface GatherConfig {
+	/** Give up on each inject attempt, the aggregator's included, after this many milliseconds (default 30000); the route's retry policy may make further attempts */
+	timeoutMs?: number;
+	merge?: GatherMerge;
+	/** Session that merges the replies when `merge` is `aggregate` */
+	aggregator?: string;
+	/** How each reply is laid out, with `{{session}}`, `{{message}}` and `{{route}}` (default `**{{session}}**\n{{message}}`) */
+	format?: string;
+	/** What the aggregator is asked, with `{{message}}`, `{{replies}}` and `{{route}}` */
+	prompt?: string;
+}
+
+/**
+ * How a response is rendered for a channel: Markdown as-is, Slack mrkdwn, or plain text.
+ */
+export type FormatProfile = "markdown" | "slack" | "plain";
+
+export interface OutgoingRoute extends FieldPredicate, RouteOrdering {
+	name?: string;
+	/**
+	 * Send to these channels, whichever session they belong to, instead of the source session's own channels.
+	 * `channelType`, `channelId` and `match` then filter these channels.
+	 */
+	targetChannels?: Array<{ type: string; id: string }>;
+	/** Applied to the response before the template */
+	transforms?: Transform[];
+	/** Wrap sent responses; `{{message}}` is the response and `{{channel.*}}` the destination channel */
+	template?: string;
+	/** Render responses with this profile on every channel, overriding `channelFormats` */
+	format?: FormatProfile;
+	/** Deliver without holding up the response, overriding `fanOut.background` */
+	background?: boolean;
+	/** Retry failed sends, overriding the config-wide `retry` */
+	retry?: RetryPolicy;
+	/** Give up on a send attempt after this many milliseconds, overriding the config-wide `timeoutMs` */
+	timeoutMs?: number;
+	/** Hold matched responses for this many milliseconds before sending them */
+	delayMs?: number;
+	/** Limit how many responses this route forwards */
+	rateLimit?: RateLimit;
+	/** Expression evaluated per channel, in addition to the flat fields */
+	match?: MatchExpression;
+}
+
+export interface RouterConfig {
+	uiPort?: number;
+	routes?: Route[];
+	outgoingRoutes?: OutgoingRoute[];
+	/** Default format profile per channel type, e.g. `{ "slack": "slack", "sms": "plain" }` */
+	channelFormats?: Record<string, FormatProfile>;
+	chunking?: ChunkingConfig;
+	fanOut?: FanOutConfig;
+	/** Default retry policy for routes without their own */
+	retry?: RetryPolicy;
+	/** Default per-attempt delivery timeout in milliseconds; unset or 0 means no timeout */
+	timeoutMs?: number;
+	deadLetters?: DeadLetterConfig;
+	rateLimits?: RateLimitConfig;
+	dedup?: DedupConfig;
+	loopDetection?: LoopDetectionConfig;
+	circuitBreaker?: CircuitBreakerConfig;
+}
+
+/**
+ * Stop delivering to a target session or channel that keeps failing, and try it again after a cooldown.
+ */
+export interface CircuitBreakerConfig {
+	/** Set to false to always attempt deliveries (default true) */
+	enabled?: boolean;
+	/** Consecutive failed deliveries that open the circuit (default 5) */
+	failureThreshold?: number;
+	/** How long an open circuit refuses deliveries before letting a trial through (default 30000) */
+	cooldownMs?: number;
+	/** Session to deliver to instead while a target session's circuit is open, keyed by target pattern */
+	fallbacks?: Record<Pattern, string>;
+}
+
+/**
+ * Tracking of messages the router injected, so routes cannot send them around in circles.
+ */
+export interface LoopDetectionConfig {
+	/** Most times one message may be routed on from session to session (default 5) */
+	maxHops?: number;
+	/** How long an injected message is tracked while waiting for it to come back through the router (default 60000) */
+	ttlMs?: number;
+}
+
+/**
+ * Suppression of repeated deliveries, e.g. adapter redeliveries or overlapping routes.
+ */
+export interface DedupConfig {
+	/** Repeats of the same delivery within this many milliseconds are suppressed; unset or 0 disables dedup */
+	windowMs?: number;
+	/** Most deliveries remembered at once; the oldest are forgotten first (default 10000) */
+	maxEntries?: number;
+}
+
+/**
+ * How failed deliveries are retried.
+ */
+export interface RetryPolicy {
+	/** Total attempts including the first (default 1, i.e. no retries) */
+	maxAttempts?: number;
+	/** Delay before the first retry; doubles on each further retry (default 500) */
+	baseDelayMs?: number;
+	/** Upper bound for the delay (default 30000) */
+	maxDelayMs?: number;
+	/** Random spread as a fraction of the delay, 0-1 (default 0.2) */
+	jitter?: number;
+	/** Only retry errors whose message, name or code matches one of these patterns */
+	retryOn?: Pattern[];
+}
+
+/**
+ * What happens to a delivery when its token bucket is empty:
+ * - `drop`: skip it (default)
+ * - `queue`: wait for a token, up to `maxQueue` waiting deliveries
+ * - `sample`: deliver a random `sampleRate` fraction and drop the rest
+ */
+export type RateLimitOverflow = "drop" | "queue" | "sample";
+
+/**
+ * A token bucket: `rate` tokens are added every `intervalMs`, up to `burst`, and each delivery takes one.
+ */
+export interface RateLimit {
+	rate: number;
+	/** Refill interval (default 1000) */
+	intervalMs?: number;
+	/** Bucket capacity, i.e. the largest burst let through at once (default `rate`) */
+	burst?: number;
+	overflow?: RateLimitOverflow;
+	/** Fraction of overflowing deliveries let through with `sample`, 0-1 (default 0.1) */
+	sampleRate?: number;
+	/** Deliveries allowed to wait with `queue`; later ones are dropped (default 100) */
+	maxQueue?: number;
+}
+
+/**
+ * Rate limits shared by every route. Keys are patterns; each matching target gets its own bucket.
+ */
+export interface RateLimitConfig {
+	/** Limits per target session */
+	sessions?: Record<Pattern, RateLimit>;
+	/** Limits per outgoing channel, matched against `type:id` */
+	channels?: Record<Pattern, RateLimit>;
+}
+
+/**
+ * Storage of deliveries that still failed after their last retry.
+ */
+export interface DeadLetterConfig {
+	/** Keep failed deliveries for inspection and replay (default true) */
+	enabled?: boolean;
+	/** Oldest entries are discarded beyond this many (default 1000) */
+	maxEntries?: number;
+}
+
+/**
+ * A delivery that failed after every attempt, kept under the plugin directory until replayed or purged.
+ */
+export interface DeadLetter {
+	id: string;
+	direction: "incoming" | "outgoing";
+	/** Name of the route that made the delivery, if it has one */
+	route?: string;
+	/** Session the message or response came from */
+	source: string;
+	/** Target session, or the destination channel as `type:id` */
+	target: string;
+	/** Destination channel of an outgoing delivery */
+	channel?: { type: string; id: string };
+	/** Exactly what was being delivered, after transforms, templates and chunking */
+	payload: string;
+	/** The last error */
+	error: string;
+	attempts: number;
+	/** ISO timestamp of the original failure */
+	failedAt: string;
+	/** ISO timestamp of the most recent failure, including failed replays */
+	lastFailedAt: string;
+	replays: number;
+}
+
+/**
+ * A delivery held back by a route's `delayMs` or `schedule.holdOutside`, kept under the plugin directory until it is due.
+ */
+export interface DelayedDelivery {
+	id: string;
+	direction: "incoming" | "outgoing";
+	/** Name of the route that made the delivery, if it has one */
+	route?: string;
+	/** Session the message or response came from */
+	source: string;
+	/** Target session, or the destination channel as `type:id` */
+	target: string;
+	/** Destination channel of an outgoing delivery */
+	channel?: { type: string; id: string };
+	/** What will be delivered, after transforms, templates and formatting; responses are chunked when sent */
+	payload: string;
+	/** Sessions an incoming message had already passed through, for loop detection */
+	path?: string[];
+	/** ISO timestamp of when the delivery was held back */
+	queuedAt: string;
+	/** ISO timestamp of when it is delivered */
+	dueAt: string;
+}
+
+/**
+ * How deliveries to a route's targets are scheduled.
+ */
+export interface FanOutConfig {
+	/** Maximum deliveries in flight per route (default 1, i.e. one target at a time) */
+	concurrency?: number;
+	/** Return from the middleware immediately and deliver in the background (default false) */
+	background?: boolean;
+}
+
+/**
+ * Splitting of long outgoing responses for channels with size limits.
+ */
+export interface ChunkingConfig {
+	/** Maximum message length per channel type, merged over the built-in limits */
+	limits?: Record<string, number>;
+	/** Append `(1/3)` markers to each chunk (default false) */
+	numbering?: boolean;
+}
+
+export interface IncomingInput {
+	session: string;
+	channel?: { type: string; id: string };
+	message: string;
+	/** Adapter-provided id, used instead of the message text to detect duplicates */
+	messageId?: string;
+}
+
+export interface OutgoingOutput {
+	session: string;
+	response: string;
+}
@@ -4,6 +4,8 @@
  * SolidJS component for managing message routing rules.
  */
 
+import type { RouteSchedule } from "./types.js";
+
 declare const Solid: {
 	createSignal: <T>(initial: T) => [{ (): T; (fn: (value: T) => void): void }, (value: T) => void];
 	onMount: (fn: () => void | Promise<void>) => void;
@@ -13,6 +15,14 @@ interface Route {
 	sourceSession: string;
 	targetSessions: string[];
 	channelType?: string;
+	schedule?: RouteSchedule;
+}
+
+interface CircuitStatus {
+	target: string;
+	state: "closed" | "open" | "half-open";
+	failures: number;
+	retryAt: string | null;
 }
 
 interface RouterConfig {
@@ -43,6 +53,19 @@ export default function RouterPluginUI(props: RouterPluginProps): HTMLDivElement
 	const [newSource, setNewSource] = createSignal("");
 	const [newTargets, setNewTargets] = createSignal("");
 	const [newChannelType, setNewChannelType] = createSignal("");
+	const [circuits, setCircuits] = createSignal<CircuitStatus[]>([]);
+	// Whether each incoming route's schedule is active, as the router evaluates it in the host's timezone
+	const [scheduleActive, setScheduleActive] = createSignal<Array<boolean | undefined>>([]);
+
+	const loadScheduleActive = async (): Promise<void> => {
+		try {
+			const res = await fetch(new URL("/api/webmcp/routes", import.meta.url));
+			const listing = (await res.json()) as { incoming?: Array<{ active?: boolean }> };
+			setScheduleActive((listing.incoming || []).map((r) => r.active));
+		} catch {
+			// Schedule state is informational; the panel works without it
+		}
+	};
 
 	onMount(async () => {
 		const config = await props.api.getConfig();
@@ -51,6 +74,19 @@ export default function RouterPluginUI(props: RouterPluginProps): HTMLDivElement
 		setOutgoingRoutes(routerConfig.outgoingRoutes || []);
 	});
 
+	// Circuit state comes from the plugin's own server, which also serves this module
+	onMount(async () => {
+		try {
+			const res = await fetch(new URL("/api/webmcp/status", import.meta.url));
+			const status = (await res.json()) as { circuits?: { targets?: CircuitStatus[] } };
+			setCircuits(status.circuits?.targets || []);
+		} catch {
+			// Status is informational; the panel works without it
+		}
+	});
+
+	onMount(loadScheduleActive);
+
 	const handleAddRoute = async (): Promise<void> => {
 		if (!newSource() || !newTargets()) return;
 
@@ -73,6 +109,7 @@ export default function RouterPluginUI(props: RouterPluginProps): HTMLDivElement
 		setNewSource("");
 		setNewTargets("");
 		setNewChannelType("");
+		await loadScheduleActive();
 	};
 
 	const handleDeleteRoute = async (index: number): Promise<void> => {
@@ -82,6 +119,7 @@ export default function RouterPluginUI(props: RouterPluginProps): HTMLDivElement
 			outgoingRoutes: outgoingRoutes(),
 		});
 		setRoutes(updatedRoutes);
+		await loadScheduleActive();
 	};
 
 	// Create DOM
@@ -131,6 +169,15 @@ export default function RouterPluginUI(props: RouterPluginProps): HTMLDivElement
 					detailDiv.appendChild(channelDiv);
 				}
 
+				if (route.schedule) {
+					const active = scheduleActive()[index];
+					const scheduleDiv = document.createElement("div");
+					scheduleDiv.className = `route-schedule text-xs ${active ? "text-green-400" : "text-wopr-muted"}`;
+					scheduleDiv.textContent =
+						active === undefined ? "Schedule: set" : active ? "Schedule: active now" : "Schedule: inactive";
+					detailDiv.appendChild(scheduleDiv);
+				}
+
 				const deleteBtn = document.createElement("button");
 				deleteBtn.className = "delete-route px-3 py-1 bg-red-500/20 text-red-400 rounded text-sm hover:bg-red-500/30";
 				deleteBtn.textContent = "Delete";
@@ -145,10 +192,39 @@ export default function RouterPluginUI(props: RouterPluginProps): HTMLDivElement
 
 	// Initial render and reactive updates
 	routes(updateRoutesList);
+	scheduleActive(updateRoutesList);
 	updateRoutesList();
 
 	container.appendChild(routesSection);
 
+	// Targets whose deliveries have been failing
+	const circuitsSection = document.createElement("div");
+	circuitsSection.className = "mb-4";
+
+	const updateCircuitsList = (): void => {
+		circuitsSection.innerHTML = "";
+		if (circuits().length === 0) return;
+
+		const title = document.createElement("h4");
+		title.className = "text-sm font-semibold text-wopr-muted uppercase mb-2";
+		title.textContent = "Failing Targets";
+		circuitsSection.appendChild(title);
+
+		for (const circuit of circuits()) {
+			const item = document.createElement("div");
+			const color = circuit.state === "closed" ? "text-wopr-muted" : "text-red-400";
+			item.className = `circuit-state text-sm p-2 bg-wopr-panel rounded border border-wopr-border mb-1 ${color}`;
+			const retry = circuit.state === "open" && circuit.retryAt ? `, retrying at ${circuit.retryAt}` : "";
+			item.textContent = `${circuit.target}: ${circuit.state} (${circuit.failures} failures${retry})`;
+			circuitsSection.appendChild(item);
+		}
+	};
+
+	circuits(updateCircuitsList);
+	updateCircuitsList();
+
+	container.appendChild(circuitsSection);
+
 	// Add route form
 	const formSection = document.createElement("div");
 	formSection.className = "p-3 bg-wopr-panel rounded border border-wopr-border";
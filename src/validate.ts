@@ -0,0 +1,344 @@
+// src/validate.ts
+
+import { AFFINITY_KEYS } from "./affinity.js";
+import { MIN_CHANNEL_LIMIT } from "./chunking.js";
+import { validateDigest } from "./digest.js";
+import { FORMAT_PROFILES } from "./format.js";
+import { validateGather } from "./gather.js";
+import { findRouteCycles } from "./loops.js";
+import { toRegexPattern, validatePattern } from "./match.js";
+import { validateRateLimit } from "./rate-limit.js";
+import { validateRetryPolicy } from "./retry.js";
+import { validateSchedule } from "./schedule.js";
+import { ROUTE_STRATEGIES } from "./strategy.js";
+import { validateTemplate } from "./template.js";
+import { validateTransforms } from "./transforms.js";
+import type {
+	ContentMatch,
+	FieldPredicate,
+	MatchExpression,
+	OutgoingRoute,
+	RateLimit,
+	RetryPolicy,
+	Route,
+	RouteOrdering,
+	RouterConfig,
+} from "./types.js";
+
+const PATTERN_FIELDS = ["sourceSession", "channelType", "channelId"] as const;
+
+function checkPatterns(route: FieldPredicate, label: string, problems: string[]): void {
+	for (const field of PATTERN_FIELDS) {
+		const pattern = route[field];
+		if (pattern === undefined) continue;
+		if (typeof pattern !== "string") {
+			problems.push(`${label}.${field} must be a string`);
+			continue;
+		}
+		const error = validatePattern(pattern);
+		if (error) problems.push(`${label}.${field} has invalid pattern "${pattern}": ${error}`);
+	}
+}
+
+function checkContent(content: ContentMatch, label: string, problems: string[]): void {
+	if (content.regex !== undefined) {
+		const error =
+			typeof content.regex === "string" ? validatePattern(toRegexPattern(content.regex)) : "must be a string";
+		if (error) problems.push(`${label}.regex is invalid: ${error}`);
+	}
+	if (content.keywords !== undefined && !Array.isArray(content.keywords)) {
+		problems.push(`${label}.keywords must be an array of strings`);
+	}
+	for (const field of ["minLength", "maxLength"] as const) {
+		const value = content[field];
+		if (value !== undefined && (typeof value !== "number" || value < 0)) {
+			problems.push(`${label}.${field} must be a non-negative number`);
+		}
+	}
+	if (content.minLength !== undefined && content.maxLength !== undefined && content.minLength > content.maxLength) {
+		problems.push(`${label}.minLength is greater than maxLength, so the route can never match`);
+	}
+}
+
+function checkPredicate(predicate: FieldPredicate, label: string, problems: string[]): void {
+	checkPatterns(predicate, label, problems);
+	if (predicate.content) checkContent(predicate.content, `${label}.content`, problems);
+}
+
+function checkExpression(expression: MatchExpression, label: string, problems: string[]): void {
+	if (!expression || typeof expression !== "object" || Array.isArray(expression)) {
+		problems.push(`${label} must be an object`);
+		return;
+	}
+	const operators = (["all", "any", "not"] as const).filter((op) => op in expression);
+	if (operators.length > 1 || (operators.length === 1 && Object.keys(expression).length > 1)) {
+		problems.push(`${label} must contain exactly one of "all", "any" or "not", or only field conditions`);
+		return;
+	}
+	if ("all" in expression || "any" in expression) {
+		const op = "all" in expression ? "all" : "any";
+		const children = "all" in expression ? expression.all : expression.any;
+		if (!Array.isArray(children)) {
+			problems.push(`${label}.${op} must be an array`);
+			return;
+		}
+		children.forEach((child, i) => {
+			checkExpression(child, `${label}.${op}[${i}]`, problems);
+		});
+		return;
+	}
+	if ("not" in expression) {
+		checkExpression(expression.not, `${label}.not`, problems);
+		return;
+	}
+	checkPredicate(expression, label, problems);
+}
+
+function checkTemplate(template: string | undefined, label: string, problems: string[]): void {
+	if (template === undefined) return;
+	if (typeof template !== "string") {
+		problems.push(`${label}.template must be a string`);
+		return;
+	}
+	for (const problem of validateTemplate(template)) {
+		problems.push(`${label}.template has ${problem}`);
+	}
+}
+
+function checkTransforms(route: Route | OutgoingRoute, label: string, problems: string[]): void {
+	if (route.transforms === undefined) return;
+	for (const problem of validateTransforms(route.transforms)) {
+		problems.push(`${label}.transforms${problem.startsWith("[") ? "" : " "}${problem}`);
+	}
+}
+
+function checkRetry(policy: RetryPolicy | undefined, label: string, problems: string[]): void {
+	if (policy === undefined) return;
+	for (const problem of validateRetryPolicy(policy)) {
+		problems.push(`${label}.${problem}`);
+	}
+	for (const pattern of Array.isArray(policy.retryOn) ? policy.retryOn : []) {
+		const error = typeof pattern === "string" ? validatePattern(pattern) : "must be a string";
+		if (error) problems.push(`${label}.retryOn has invalid pattern "${pattern}": ${error}`);
+	}
+}
+
+function checkRateLimit(limit: RateLimit | undefined, label: string, problems: string[]): void {
+	if (limit === undefined) return;
+	for (const problem of validateRateLimit(limit)) {
+		problems.push(`${label}.${problem}`);
+	}
+}
+
+function checkDuration(ms: number | undefined, label: string, problems: string[]): void {
+	if (ms !== undefined && (typeof ms !== "number" || !(ms >= 0))) {
+		problems.push(`${label} must be a non-negative number`);
+	}
+}
+
+function checkOrdering(route: RouteOrdering, label: string, problems: string[]): void {
+	if (route.priority !== undefined && (typeof route.priority !== "number" || !Number.isFinite(route.priority))) {
+		problems.push(`${label}.priority must be a finite number`);
+	}
+	for (const field of ["final", "fallback"] as const) {
+		if (route[field] !== undefined && typeof route[field] !== "boolean") {
+			problems.push(`${label}.${field} must be a boolean`);
+		}
+	}
+}
+
+const ROUTE_MODES = ["copy", "divert", "drop", "scatter-gather"];
+
+/**
+ * Check a router config for mistakes that would make routes silently never match.
+ * Returns a list of human-readable problems; an empty list means the config is valid.
+ */
+export function validateRouterConfig(config: RouterConfig): string[] {
+	const problems: string[] = [];
+	(config.routes || []).forEach((route, i) => {
+		checkPredicate(route, `routes[${i}]`, problems);
+		checkOrdering(route, `routes[${i}]`, problems);
+		checkTransforms(route, `routes[${i}]`, problems);
+		checkTemplate(route.template, `routes[${i}]`, problems);
+		checkRetry(route.retry, `routes[${i}].retry`, problems);
+		checkRateLimit(route.rateLimit, `routes[${i}].rateLimit`, problems);
+		checkDuration(route.timeoutMs, `routes[${i}].timeoutMs`, problems);
+		checkDuration(route.delayMs, `routes[${i}].delayMs`, problems);
+		if (route.mode !== undefined && !ROUTE_MODES.includes(route.mode)) {
+			problems.push(`routes[${i}].mode must be one of ${ROUTE_MODES.join(", ")}`);
+		}
+		if (route.primaryTarget !== undefined && (typeof route.primaryTarget !== "string" || !route.primaryTarget)) {
+			problems.push(`routes[${i}].primaryTarget must be a session name`);
+		}
+		if (route.primaryTarget !== undefined && route.targetSessions?.length) {
+			problems.push(`routes[${i}].primaryTarget and targetSessions cannot both be set`);
+		}
+		if (
+			route.fallbackTargets !== undefined &&
+			(!Array.isArray(route.fallbackTargets) || route.fallbackTargets.some((t) => typeof t !== "string" || !t))
+		) {
+			problems.push(`routes[${i}].fallbackTargets must be an array of session names`);
+		}
+		if (route.strategy !== undefined && !ROUTE_STRATEGIES.includes(route.strategy)) {
+			problems.push(`routes[${i}].strategy must be one of ${ROUTE_STRATEGIES.join(", ")}`);
+		}
+		if (route.affinity !== undefined) {
+			if (!route.affinity || !AFFINITY_KEYS.includes(route.affinity.key)) {
+				problems.push(`routes[${i}].affinity.key must be one of ${AFFINITY_KEYS.join(", ")}`);
+			}
+			checkDuration(route.affinity?.ttlMs, `routes[${i}].affinity.ttlMs`, problems);
+		}
+		for (const [target, weight] of Object.entries(route.weights || {})) {
+			if (typeof weight !== "number" || !Number.isFinite(weight) || weight < 0) {
+				problems.push(`routes[${i}].weights.${target} must be a non-negative number`);
+			}
+		}
+		if (route.schedule) {
+			for (const problem of validateSchedule(route.schedule)) {
+				problems.push(`routes[${i}].schedule.${problem}`);
+			}
+		}
+		if (route.digest !== undefined) {
+			for (const problem of validateDigest(route.digest)) {
+				problems.push(`routes[${i}].digest.${problem}`);
+			}
+		}
+		if (route.gather !== undefined) {
+			for (const problem of validateGather(route.gather)) {
+				problems.push(`routes[${i}].gather.${problem}`);
+			}
+		}
+		if (route.match !== undefined) checkExpression(route.match, `routes[${i}].match`, problems);
+	});
+	(config.outgoingRoutes || []).forEach((route, i) => {
+		checkPredicate(route, `outgoingRoutes[${i}]`, problems);
+		checkOrdering(route, `outgoingRoutes[${i}]`, problems);
+		checkTransforms(route, `outgoingRoutes[${i}]`, problems);
+		checkTemplate(route.template, `outgoingRoutes[${i}]`, problems);
+		checkRetry(route.retry, `outgoingRoutes[${i}].retry`, problems);
+		checkRateLimit(route.rateLimit, `outgoingRoutes[${i}].rateLimit`, problems);
+		checkDuration(route.timeoutMs, `outgoingRoutes[${i}].timeoutMs`, problems);
+		checkDuration(route.delayMs, `outgoingRoutes[${i}].delayMs`, problems);
+		if (route.format !== undefined && !FORMAT_PROFILES.includes(route.format)) {
+			problems.push(`outgoingRoutes[${i}].format must be one of ${FORMAT_PROFILES.join(", ")}`);
+		}
+		if (route.match !== undefined) checkExpression(route.match, `outgoingRoutes[${i}].match`, problems);
+		if (route.targetChannels !== undefined) {
+			if (!Array.isArray(route.targetChannels)) {
+				problems.push(`outgoingRoutes[${i}].targetChannels must be an array of channels`);
+			} else {
+				route.targetChannels.forEach((channel, j) => {
+					if (
+						!channel ||
+						typeof channel.type !== "string" ||
+						!channel.type ||
+						typeof channel.id !== "string" ||
+						!channel.id
+					) {
+						problems.push(`outgoingRoutes[${i}].targetChannels[${j}] must have a channel type and id`);
+					}
+				});
+			}
+		}
+	});
+	checkRetry(config.retry, "retry", problems);
+	checkDuration(config.timeoutMs, "timeoutMs", problems);
+	for (const scope of ["sessions", "channels"] as const) {
+		for (const [pattern, limit] of Object.entries(config.rateLimits?.[scope] || {})) {
+			const error = validatePattern(pattern);
+			if (error) problems.push(`rateLimits.${scope} has invalid pattern "${pattern}": ${error}`);
+			checkRateLimit(limit, `rateLimits.${scope}.${pattern}`, problems);
+		}
+	}
+	const windowMs = config.dedup?.windowMs;
+	if (windowMs !== undefined && (typeof windowMs !== "number" || !(windowMs >= 0))) {
+		problems.push("dedup.windowMs must be a non-negative number");
+	}
+	const dedupMax = config.dedup?.maxEntries;
+	if (dedupMax !== undefined && (typeof dedupMax !== "number" || !Number.isInteger(dedupMax) || dedupMax < 1)) {
+		problems.push("dedup.maxEntries must be a positive integer");
+	}
+	for (const field of ["maxHops", "ttlMs"] as const) {
+		const value = config.loopDetection?.[field];
+		if (value !== undefined && (typeof value !== "number" || !Number.isInteger(value) || value < 1)) {
+			problems.push(`loopDetection.${field} must be a positive integer`);
+		}
+	}
+	for (const field of ["failureThreshold", "cooldownMs"] as const) {
+		const value = config.circuitBreaker?.[field];
+		if (value !== undefined && (typeof value !== "number" || !Number.isInteger(value) || value < 1)) {
+			problems.push(`circuitBreaker.${field} must be a positive integer`);
+		}
+	}
+	for (const [pattern, fallback] of Object.entries(config.circuitBreaker?.fallbacks || {})) {
+		const error = validatePattern(pattern);
+		if (error) problems.push(`circuitBreaker.fallbacks has invalid pattern "${pattern}": ${error}`);
+		if (typeof fallback !== "string" || !fallback) {
+			problems.push(`circuitBreaker.fallbacks.${pattern} must be a session name`);
+		}
+	}
+	const maxEntries = config.deadLetters?.maxEntries;
+	if (maxEntries !== undefined && (typeof maxEntries !== "number" || !Number.isInteger(maxEntries) || maxEntries < 1)) {
+		problems.push("deadLetters.maxEntries must be a positive integer");
+	}
+	const concurrency = config.fanOut?.concurrency;
+	if (
+		concurrency !== undefined &&
+		(typeof concurrency !== "number" || !Number.isInteger(concurrency) || concurrency < 1)
+	) {
+		problems.push("fanOut.concurrency must be a positive integer");
+	}
+	for (const [channelType, limit] of Object.entries(config.chunking?.limits || {})) {
+		if (typeof limit !== "number" || !Number.isInteger(limit) || limit < MIN_CHANNEL_LIMIT) {
+			problems.push(
+				`chunking.limits.${channelType} must be an integer of at least ${MIN_CHANNEL_LIMIT}, and is ignored`,
+			);
+		}
+	}
+	for (const [channelType, profile] of Object.entries(config.channelFormats || {})) {
+		if (!FORMAT_PROFILES.includes(profile)) {
+			problems.push(`channelFormats.${channelType} must be one of ${FORMAT_PROFILES.join(", ")}`);
+		}
+	}
+	return problems;
+}
+
+/**
+ * Find config that is valid but probably not what was meant, such as routes that forward
+ * messages in a circle. Returns a list of human-readable warnings.
+ */
+export function routerConfigWarnings(config: RouterConfig): string[] {
+	const warnings = findRouteCycles(config.routes || []).map(
+		(cycle) => `routes form a cycle ${cycle.join(" -> ")}; messages on it are stopped by loop detection`,
+	);
+	(config.routes || []).forEach((route, i) => {
+		for (const target of Object.keys(route.weights || {})) {
+			if (!(route.targetSessions || []).includes(target)) {
+				warnings.push(`routes[${i}].weights has "${target}", which is not one of its targetSessions`);
+			}
+		}
+		if (route.weights && route.strategy !== "weighted") {
+			warnings.push(`routes[${i}].weights only apply with the "weighted" strategy`);
+		}
+		if (route.affinity && (!route.strategy || route.strategy === "broadcast")) {
+			warnings.push(`routes[${i}].affinity only applies with a strategy other than "broadcast"`);
+		}
+		if (route.gather && route.mode !== "scatter-gather") {
+			warnings.push(`routes[${i}].gather only applies with the "scatter-gather" mode`);
+		}
+		if (route.mode === "scatter-gather") {
+			// Scatter-gather asks every target at once and waits for the replies itself
+			for (const field of ["strategy", "digest", "delayMs", "fallbackTargets"] as const) {
+				if (route[field] !== undefined) {
+					warnings.push(`routes[${i}].${field} has no effect with the "scatter-gather" mode`);
+				}
+			}
+			if (route.schedule?.holdOutside) {
+				warnings.push(
+					`routes[${i}].schedule.holdOutside has no effect with the "scatter-gather" mode; messages outside the window are asked right away`,
+				);
+			}
+		}
+	});
+	return warnings;
+}
@@ -1,29 +1,19 @@
 // src/webmcp-tools.ts
 
+import type { AffinityEntry } from "./affinity.js";
+import type { CircuitStatus } from "./circuit-breaker.js";
+import { isScheduleActive, routeTargets } from "./schedule.js";
 import type { RoutingStats } from "./stats.js";
-
-interface Route {
-	sourceSession?: string;
-	targetSessions?: string[];
-	channelType?: string;
-	channelId?: string;
-}
-
-interface OutgoingRoute {
-	sourceSession?: string;
-	channelType?: string;
-	channelId?: string;
-}
-
-interface RouterConfig {
-	routes?: Route[];
-	outgoingRoutes?: OutgoingRoute[];
-}
+import type { DeadLetter, DelayedDelivery, OutgoingRoute, Route, RouterConfig } from "./types.js";
 
 /**
- * getRouterStatus -- Router enabled/disabled, total routes configured.
+ * getRouterStatus -- Router enabled/disabled, total routes configured, circuit breaker state per failing target.
  */
-export function buildRouterStatusResponse(config: RouterConfig, serverRunning: boolean): Record<string, unknown> {
+export function buildRouterStatusResponse(
+	config: RouterConfig,
+	serverRunning: boolean,
+	circuits: CircuitStatus[] = [],
+): Record<string, unknown> {
 	const incomingRoutes = config.routes || [];
 	const outgoingRoutes = config.outgoingRoutes || [];
 
@@ -36,29 +26,57 @@ export function buildRouterStatusResponse(config: RouterConfig, serverRunning: b
 		outgoing: {
 			count: outgoingRoutes.length,
 		},
+		circuits: {
+			open: circuits.filter((c) => c.state !== "closed").length,
+			targets: circuits,
+		},
 	};
 }
 
 /**
  * listRoutes -- Routing rules as human-readable source->target mappings.
  */
-export function buildListRoutesResponse(config: RouterConfig): Record<string, unknown> {
+export function buildListRoutesResponse(config: RouterConfig, now: Date = new Date()): Record<string, unknown> {
 	const incomingRoutes = config.routes || [];
 	const outgoingRoutes = config.outgoingRoutes || [];
 
 	return {
 		incoming: incomingRoutes.map((r: Route) => ({
+			name: r.name || null,
 			source: r.sourceSession || "*",
-			targets: r.targetSessions || [],
+			targets: routeTargets(r),
+			fallbacks: r.fallbackTargets || [],
+			mode: r.mode || "copy",
+			strategy: r.strategy || "broadcast",
+			affinity: r.affinity || null,
 			channelType: r.channelType || null,
 			channelId: r.channelId || null,
-			summary: `${r.sourceSession || "*"} -> ${(r.targetSessions || []).join(", ") || "(none)"}${r.channelType ? ` [${r.channelType}]` : ""}`,
+			content: r.content || null,
+			match: r.match || null,
+			priority: r.priority ?? 0,
+			final: r.final === true,
+			fallback: r.fallback === true,
+			schedule: r.schedule || null,
+			active: r.schedule ? isScheduleActive(r.schedule, now) : true,
+			gather: r.gather || null,
+			transforms: (r.transforms || []).map((t) => t.type),
+			template: r.template || null,
+			summary: `${r.sourceSession || "*"} -> ${routeTargets(r).join(", ") || "(none)"}${r.fallbackTargets?.length ? ` (then ${r.fallbackTargets.join(", ")})` : ""}${r.channelType ? ` [${r.channelType}]` : ""}`,
 		})),
 		outgoing: outgoingRoutes.map((r: OutgoingRoute) => ({
+			name: r.name || null,
 			source: r.sourceSession || "*",
+			targetChannels: (r.targetChannels || []).map((c) => `${c.type}:${c.id}`),
 			channelType: r.channelType || null,
 			channelId: r.channelId || null,
-			summary: `${r.sourceSession || "*"} -> channels${r.channelType ? ` [${r.channelType}]` : ""}${r.channelId ? ` #${r.channelId}` : ""}`,
+			match: r.match || null,
+			priority: r.priority ?? 0,
+			final: r.final === true,
+			fallback: r.fallback === true,
+			transforms: (r.transforms || []).map((t) => t.type),
+			template: r.template || null,
+			format: r.format || null,
+			summary: `${r.sourceSession || "*"} -> ${r.targetChannels ? r.targetChannels.map((c) => `${c.type}:${c.id}`).join(", ") || "(none)" : "channels"}${r.channelType ? ` [${r.channelType}]` : ""}${r.channelId ? ` #${r.channelId}` : ""}`,
 		})),
 		totalRules: incomingRoutes.length + outgoingRoutes.length,
 	};
@@ -76,6 +94,34 @@ export function buildRoutingStatsResponse(stats: RoutingStats): Record<string, u
 			outgoingRouted: stats.outgoingRouted,
 			total: stats.messagesRouted + stats.outgoingRouted,
 			errors: stats.errors,
+			timeouts: stats.timeouts,
+			duplicatesSuppressed: stats.duplicatesSuppressed,
+			loopsRejected: stats.loopsRejected,
+			circuitRejected: stats.circuitRejected,
+			failovers: stats.failovers,
+			delayed: stats.deliveriesDelayed,
+		},
+		retries: {
+			attempts: stats.retries,
+			succeeded: stats.retrySucceeded,
+			exhausted: stats.retryExhausted,
+		},
+		rateLimits: {
+			dropped: stats.rateLimitDropped,
+			queued: stats.rateLimitQueued,
+			sampled: stats.rateLimitSampled,
+			overflows: Object.entries(stats.rateLimitOverflows).map(([limit, count]) => ({ limit, count })),
+		},
+		selections: Object.entries(stats.strategySelections).flatMap(([route, targets]) =>
+			Object.entries(targets).map(([target, count]) => ({ route, target, count })),
+		),
+		digests: {
+			delivered: stats.digestsDelivered,
+			messages: stats.messagesDigested,
+		},
+		gathers: {
+			completed: stats.gathersCompleted,
+			timeouts: stats.gatherTimeouts,
 		},
 		routeHits: Object.entries(stats.routeHits).map(([route, count]) => ({
 			route,
@@ -100,3 +146,67 @@ function formatUptime(ms: number): string {
 	if (minutes > 0) return `${minutes}m ${seconds % 60}s`;
 	return `${seconds}s`;
 }
+
+const PAYLOAD_PREVIEW_LENGTH = 80;
+
+function previewPayload(payload: string): string {
+	return payload.length > PAYLOAD_PREVIEW_LENGTH ? `${payload.slice(0, PAYLOAD_PREVIEW_LENGTH)}…` : payload;
+}
+
+/**
+ * listDeadLetters -- Failed deliveries, newest first, with a payload preview instead of the full payload.
+ */
+export function buildDeadLettersResponse(entries: DeadLetter[]): Record<string, unknown> {
+	return {
+		count: entries.length,
+		entries: [...entries].reverse().map((e) => ({
+			id: e.id,
+			direction: e.direction,
+			route: e.route || null,
+			source: e.source,
+			target: e.target,
+			error: e.error,
+			attempts: e.attempts,
+			replays: e.replays,
+			failedAt: e.failedAt,
+			lastFailedAt: e.lastFailedAt,
+			preview: previewPayload(e.payload),
+		})),
+	};
+}
+
+/**
+ * listDelayedDeliveries -- Deliveries held back by a route's delay or schedule, soonest first, with a payload preview.
+ */
+export function buildDelayedDeliveriesResponse(entries: DelayedDelivery[]): Record<string, unknown> {
+	return {
+		count: entries.length,
+		entries: entries.map((e) => ({
+			id: e.id,
+			direction: e.direction,
+			route: e.route || null,
+			source: e.source,
+			target: e.target,
+			queuedAt: e.queuedAt,
+			dueAt: e.dueAt,
+			preview: previewPayload(e.payload),
+		})),
+	};
+}
+
+/**
+ * listAffinities -- Sticky targets of load-balancing routes, most recently used first.
+ */
+export function buildAffinityResponse(entries: AffinityEntry[]): Record<string, unknown> {
+	return {
+		count: entries.length,
+		entries: entries.map((e) => ({
+			route: e.route,
+			value: e.value,
+			target: e.target,
+			createdAt: new Date(e.createdAt).toISOString(),
+			lastUsedAt: new Date(e.lastUsedAt).toISOString(),
+			expiresAt: e.expiresAt === null ? null : new Date(e.expiresAt).toISOString(),
+		})),
+	};
+}
@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  affinityValue,
+  clearAffinities,
+  hashTarget,
+  listAffinities,
+  resetAffinities,
+  selectAffinityTarget,
+} from "../src/affinity.js";
+
+const workers = ["w1", "w2", "w3"];
+
+describe("affinityValue", () => {
+  const input = { session: "support", channel: { type: "discord", id: "general" }, message: "hi" };
+
+  it("should read the chosen key from the message", () => {
+    expect(affinityValue("channelId", input)).toBe("general");
+    expect(affinityValue("channel", input)).toBe("discord:general");
+    expect(affinityValue("session", input)).toBe("support");
+  });
+
+  it("should have no channel value when the message has no channel", () => {
+    expect(affinityValue("channelId", { session: "support", message: "hi" })).toBeUndefined();
+    expect(affinityValue("channel", { session: "support", message: "hi" })).toBeUndefined();
+  });
+});
+
+describe("hashTarget", () => {
+  it("should map a value to the same target every time", () => {
+    expect(hashTarget("general", workers)).toBe(hashTarget("general", workers));
+    expect(workers).toContain(hashTarget("general", workers));
+  });
+
+  it("should spread values over every target", () => {
+    const picked = new Set(Array.from({ length: 200 }, (_, i) => hashTarget(`channel-${i}`, workers)));
+    expect([...picked].sort()).toEqual(workers);
+  });
+
+  it("should only move values that hashed to a removed target", () => {
+    const values = Array.from({ length: 200 }, (_, i) => `channel-${i}`);
+    for (const value of values) {
+      const before = hashTarget(value, workers);
+      if (before !== "w2") expect(hashTarget(value, ["w1", "w3"])).toBe(before);
+    }
+  });
+});
+
+describe("selectAffinityTarget", () => {
+  afterEach(() => {
+    resetAffinities();
+  });
+
+  it("should remember the hashed target and list it", () => {
+    const target = selectAffinityTarget("route:workers", "general", workers, undefined, 100, 1000);
+    expect(target).toBe(hashTarget("general", workers));
+    expect(listAffinities(2000)).toEqual([
+      { route: "route:workers", value: "general", target, createdAt: 1000, lastUsedAt: 1000, expiresAt: null },
+    ]);
+  });
+
+  it("should keep a remembered target while it is still a candidate", () => {
+    const target = selectAffinityTarget("r", "general", workers);
+    const others = workers.filter((w) => w !== target);
+    expect(selectAffinityTarget("r", "general", [...others, target].reverse())).toBe(target);
+    expect(selectAffinityTarget("r", "general", others)).toBe(hashTarget("general", others));
+    expect(selectAffinityTarget("r", "general", workers)).toBe(hashTarget("general", others));
+  });
+
+  it("should expire entries after the TTL without use, and extend it on use", () => {
+    const target = selectAffinityTarget("r", "general", workers, 1000, 100, 0);
+    selectAffinityTarget("r", "general", workers, 1000, 100, 800);
+    expect(listAffinities(1500)).toMatchObject([{ target, createdAt: 0, lastUsedAt: 800, expiresAt: 1800 }]);
+    expect(listAffinities(1800)).toEqual([]);
+  });
+
+  it("should drop the least recently used entries beyond the limit", () => {
+    selectAffinityTarget("r", "a", workers, undefined, 2);
+    selectAffinityTarget("r", "b", workers, undefined, 2);
+    selectAffinityTarget("r", "a", workers, undefined, 2);
+    selectAffinityTarget("r", "c", workers, undefined, 2);
+    selectAffinityTarget("r", "d", workers, undefined, 2);
+    expect(listAffinities().map((e) => e.value)).toEqual(["d", "c", "a"]);
+  });
+
+  it("should keep routes apart and clear every entry", () => {
+    selectAffinityTarget("r1", "general", workers);
+    selectAffinityTarget("r2", "general", workers);
+    expect(listAffinities().map((e) => e.route)).toEqual(["r2", "r1"]);
+    expect(clearAffinities()).toBe(2);
+    expect(listAffinities()).toEqual([]);
+  });
+});
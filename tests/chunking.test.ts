@@ -0,0 +1,107 @@
+import { describe, it, expect } from "vitest";
+import { chunkForChannel, splitMessage, splitNumberedMessage } from "../src/chunking.js";
+
+describe("splitMessage", () => {
+  it("should return short messages unchanged", () => {
+    expect(splitMessage("hello", 10)).toEqual(["hello"]);
+  });
+
+  it("should still finish with a limit below one character", () => {
+    expect(splitMessage("ab cd", 0)).toEqual(["a", "b", "c", "d"]);
+    expect(splitNumberedMessage("ab cd ef", 5)).toHaveLength(6);
+  });
+
+  it("should split on paragraph boundaries first", () => {
+    const text = "First paragraph.\n\nSecond paragraph.\n\nThird.";
+    expect(splitMessage(text, 30)).toEqual(["First paragraph.", "Second paragraph.\n\nThird."]);
+  });
+
+  it("should split long paragraphs on sentence boundaries", () => {
+    const text = "One sentence here. Another sentence here. A third one.";
+    const chunks = splitMessage(text, 25);
+    expect(chunks).toEqual(["One sentence here.", "Another sentence here.", "A third one."]);
+  });
+
+  it("should split long sentences on whitespace", () => {
+    const chunks = splitMessage("alpha beta gamma delta epsilon", 12);
+    expect(chunks).toEqual(["alpha beta", "gamma delta", "epsilon"]);
+  });
+
+  it("should hard-split words longer than the limit", () => {
+    expect(splitMessage("abcdefghij", 4)).toEqual(["abcd", "efgh", "ij"]);
+  });
+
+  it("should keep code blocks whole when they fit", () => {
+    const code = "```js\nconst a = 1;\n```";
+    const chunks = splitMessage(`Intro text here.\n\n${code}\n\nOutro.`, 30);
+    expect(chunks.some((chunk) => chunk.includes(code))).toBe(true);
+  });
+
+  it("should re-fence code blocks split across chunks", () => {
+    const code = "```py\nline_one()\nline_two()\nline_three()\n```";
+    const chunks = splitMessage(code, 30);
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.startsWith("```py\n")).toBe(true);
+      expect(chunk.endsWith("\n```")).toBe(true);
+      expect(chunk.length).toBeLessThanOrEqual(30);
+    }
+    expect(chunks.join("\n")).toContain("line_three()");
+  });
+
+  it("should never exceed the limit", () => {
+    const text = Array.from({ length: 50 }, (_, i) => `Sentence number ${i} is here.`).join(" ");
+    for (const chunk of splitMessage(text, 100)) {
+      expect(chunk.length).toBeLessThanOrEqual(100);
+    }
+  });
+});
+
+describe("splitNumberedMessage", () => {
+  it("should not number messages that fit", () => {
+    expect(splitNumberedMessage("short", 100)).toEqual(["short"]);
+  });
+
+  it("should number chunks and keep them within the limit", () => {
+    const text = "First paragraph here.\n\nSecond paragraph here.\n\nThird paragraph here.";
+    const chunks = splitNumberedMessage(text, 32);
+    expect(chunks).toHaveLength(3);
+    expect(chunks[0]).toBe("First paragraph here.\n(1/3)");
+    expect(chunks[2].endsWith("(3/3)")).toBe(true);
+    for (const chunk of chunks) expect(chunk.length).toBeLessThanOrEqual(32);
+  });
+});
+
+describe("chunkForChannel", () => {
+  it("should use configured limits over built-in ones", () => {
+    expect(chunkForChannel("aaaa bbbb cccc dddd eeee", "discord", { limits: { discord: 20 } })).toEqual([
+      "aaaa bbbb cccc dddd",
+      "eeee",
+    ]);
+  });
+
+  it("should ignore limits that are not integers of at least 20", () => {
+    const text = "word ".repeat(50);
+    for (const limit of [5, 0, -1, 25.5]) {
+      expect(chunkForChannel(text, "sms", { limits: { sms: limit }, numbering: true })).toEqual([text]);
+      expect(chunkForChannel("x".repeat(2500), "discord", { limits: { discord: limit } })).toHaveLength(2);
+    }
+  });
+
+  it("should use the built-in discord limit", () => {
+    const chunks = chunkForChannel("x".repeat(2500), "discord", undefined);
+    expect(chunks.map((c) => c.length)).toEqual([2000, 500]);
+  });
+
+  it("should not split channel types without a limit", () => {
+    expect(chunkForChannel("x".repeat(5000), "webhook", undefined)).toHaveLength(1);
+  });
+
+  it("should number chunks when enabled", () => {
+    expect(chunkForChannel("aaaa bbbb", "sms", { limits: { sms: 20 }, numbering: true })).toEqual(["aaaa bbbb"]);
+    expect(chunkForChannel("aaaa bbbb cccc dddd eeee", "sms", { limits: { sms: 20 }, numbering: true })).toEqual([
+      "aaaa bbbb cccc\n(1/2)",
+      "dddd eeee\n(2/2)",
+    ]);
+  });
+});
@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  canDeliver,
+  getCircuitStatuses,
+  recordDeliveryFailure,
+  recordDeliverySuccess,
+  resetCircuits,
+  resolveFallback,
+} from "../src/circuit-breaker.js";
+
+const config = { failureThreshold: 2, cooldownMs: 1000 };
+
+describe("circuit breaker", () => {
+  afterEach(() => {
+    resetCircuits();
+  });
+
+  it("should let deliveries through to unknown targets", () => {
+    expect(canDeliver("session:a", config)).toBe(true);
+  });
+
+  it("should open at the failure threshold", () => {
+    expect(recordDeliveryFailure("session:a", config, 0)).toBe("closed");
+    expect(canDeliver("session:a", config, 1)).toBe(true);
+    expect(recordDeliveryFailure("session:a", config, 2)).toBe("open");
+    expect(canDeliver("session:a", config, 3)).toBe(false);
+  });
+
+  it("should reset the failure count on success", () => {
+    recordDeliveryFailure("session:a", config, 0);
+    recordDeliverySuccess("session:a");
+    expect(recordDeliveryFailure("session:a", config, 1)).toBe("closed");
+  });
+
+  it("should let one trial through after the cooldown", () => {
+    recordDeliveryFailure("session:a", config, 0);
+    recordDeliveryFailure("session:a", config, 0);
+    expect(canDeliver("session:a", config, 999)).toBe(false);
+    expect(canDeliver("session:a", config, 1000)).toBe(true);
+    expect(canDeliver("session:a", config, 1001)).toBe(false);
+    expect(getCircuitStatuses(config)[0].state).toBe("half-open");
+  });
+
+  it("should close after a successful trial", () => {
+    recordDeliveryFailure("session:a", config, 0);
+    recordDeliveryFailure("session:a", config, 0);
+    canDeliver("session:a", config, 1000);
+    recordDeliverySuccess("session:a");
+    expect(canDeliver("session:a", config, 1001)).toBe(true);
+    expect(getCircuitStatuses(config)).toEqual([]);
+  });
+
+  it("should reopen when the trial fails", () => {
+    recordDeliveryFailure("session:a", config, 0);
+    recordDeliveryFailure("session:a", config, 0);
+    canDeliver("session:a", config, 1000);
+    expect(recordDeliveryFailure("session:a", config, 1000)).toBe("open");
+    expect(canDeliver("session:a", config, 1500)).toBe(false);
+    expect(canDeliver("session:a", config, 2000)).toBe(true);
+  });
+
+  it("should keep circuits per target", () => {
+    recordDeliveryFailure("session:a", config, 0);
+    recordDeliveryFailure("session:a", config, 0);
+    expect(canDeliver("session:b", config, 1)).toBe(true);
+  });
+
+  it("should report status with timestamps", () => {
+    recordDeliveryFailure("session:a", config, 0);
+    recordDeliveryFailure("channel:discord:1", config, 0);
+    recordDeliveryFailure("channel:discord:1", config, 0);
+    expect(getCircuitStatuses(config)).toEqual([
+      { target: "session:a", state: "closed", failures: 1, openedAt: null, retryAt: null },
+      {
+        target: "channel:discord:1",
+        state: "open",
+        failures: 2,
+        openedAt: new Date(0).toISOString(),
+        retryAt: new Date(1000).toISOString(),
+      },
+    ]);
+  });
+});
+
+describe("resolveFallback", () => {
+  it("should return the fallback of the first matching pattern", () => {
+    const fallbacks = { "billing-*": "billing-backup", "*": "ops" };
+    expect(resolveFallback({ fallbacks }, "billing-eu")).toBe("billing-backup");
+    expect(resolveFallback({ fallbacks }, "support")).toBe("ops");
+    expect(resolveFallback({}, "support")).toBeUndefined();
+    expect(resolveFallback(undefined, "support")).toBeUndefined();
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi } from "vitest";
+import { runInBackground, runWithConcurrency, waitForBackground } from "../src/concurrency.js";
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => {
+    resolve = r;
+  });
+  return { promise, resolve };
+}
+
+describe("runWithConcurrency", () => {
+  it("should process every item", async () => {
+    const seen: number[] = [];
+    await runWithConcurrency([1, 2, 3, 4], 2, async (n) => {
+      seen.push(n);
+    });
+    expect(seen.sort()).toEqual([1, 2, 3, 4]);
+  });
+
+  it("should never exceed the limit", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    await runWithConcurrency([1, 2, 3, 4, 5, 6], 3, async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((r) => setTimeout(r, 5));
+      inFlight--;
+    });
+    expect(maxInFlight).toBe(3);
+  });
+
+  it("should run one at a time with a limit of 1", async () => {
+    const order: string[] = [];
+    await runWithConcurrency(["a", "b"], 1, async (item) => {
+      order.push(`start ${item}`);
+      await new Promise((r) => setTimeout(r, 1));
+      order.push(`end ${item}`);
+    });
+    expect(order).toEqual(["start a", "end a", "start b", "end b"]);
+  });
+
+  it("should not let one slow item hold up the others", async () => {
+    const slow = deferred();
+    const done: string[] = [];
+    const run = runWithConcurrency(["slow", "fast1", "fast2"], 2, async (item) => {
+      if (item === "slow") await slow.promise;
+      done.push(item);
+    });
+    await new Promise((r) => setTimeout(r, 5));
+    expect(done).toEqual(["fast1", "fast2"]);
+    slow.resolve();
+    await run;
+    expect(done).toEqual(["fast1", "fast2", "slow"]);
+  });
+
+  it("should treat invalid limits as 1", async () => {
+    const seen: number[] = [];
+    await runWithConcurrency([1, 2], 0, async (n) => {
+      seen.push(n);
+    });
+    expect(seen).toEqual([1, 2]);
+  });
+
+  it("should handle an empty list", async () => {
+    const worker = vi.fn(async () => {});
+    await runWithConcurrency([], 4, worker);
+    expect(worker).not.toHaveBeenCalled();
+  });
+});
+
+describe("runInBackground", () => {
+  it("should not block the caller and should drain on waitForBackground", async () => {
+    const gate = deferred();
+    let finished = false;
+    runInBackground(async () => {
+      await gate.promise;
+      finished = true;
+    }, vi.fn());
+
+    expect(finished).toBe(false);
+    gate.resolve();
+    await waitForBackground();
+    expect(finished).toBe(true);
+  });
+
+  it("should pass rejections to onError", async () => {
+    const onError = vi.fn();
+    runInBackground(async () => {
+      throw new Error("boom");
+    }, onError);
+    await waitForBackground();
+    expect(onError).toHaveBeenCalledWith(expect.any(Error));
+  });
+});
@@ -0,0 +1,103 @@
+import { mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  addDeadLetter,
+  closeDeadLetters,
+  getDeadLetter,
+  listDeadLetters,
+  loadDeadLetters,
+  recordReplayFailure,
+  removeDeadLetters,
+} from "../src/dead-letters.js";
+
+const letter = {
+  direction: "incoming" as const,
+  source: "support",
+  target: "billing",
+  payload: "refund please",
+  error: "Error: busy",
+  attempts: 3,
+};
+
+describe("dead letter store", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), "dead-letters-"));
+    await loadDeadLetters(dir);
+  });
+
+  afterEach(async () => {
+    await closeDeadLetters();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function stored() {
+    return JSON.parse(readFileSync(join(dir, "dead-letters.json"), "utf8"));
+  }
+
+  it("should start empty without a file", () => {
+    expect(listDeadLetters()).toEqual([]);
+  });
+
+  it("should add entries with an id, timestamps and persist them", async () => {
+    const now = new Date("2026-03-02T10:00:00Z");
+    const entry = await addDeadLetter(letter, undefined, now);
+    expect(entry).toMatchObject({ ...letter, failedAt: now.toISOString(), lastFailedAt: now.toISOString(), replays: 0 });
+    expect(entry.id).toBeTruthy();
+    expect(getDeadLetter(entry.id)).toEqual(entry);
+    expect(stored()).toEqual([entry]);
+  });
+
+  it("should discard the oldest entries beyond maxEntries", async () => {
+    await addDeadLetter({ ...letter, payload: "1" }, 2);
+    await addDeadLetter({ ...letter, payload: "2" }, 2);
+    await addDeadLetter({ ...letter, payload: "3" }, 2);
+    expect(listDeadLetters().map((e) => e.payload)).toEqual(["2", "3"]);
+  });
+
+  it("should record replay failures", async () => {
+    const entry = await addDeadLetter(letter);
+    const later = new Date("2026-03-02T11:00:00Z");
+    await recordReplayFailure(entry.id, "Error: still busy", later);
+    expect(getDeadLetter(entry.id)).toMatchObject({ error: "Error: still busy", replays: 1, lastFailedAt: later.toISOString() });
+    expect(stored()[0].replays).toBe(1);
+  });
+
+  it("should remove selected entries or all of them", async () => {
+    const a = await addDeadLetter(letter);
+    await addDeadLetter(letter);
+    await addDeadLetter(letter);
+    expect(await removeDeadLetters([a.id, "missing"])).toBe(1);
+    expect(listDeadLetters()).toHaveLength(2);
+    expect(await removeDeadLetters()).toBe(2);
+    expect(stored()).toEqual([]);
+  });
+
+  it("should not expose internal state", async () => {
+    const entry = await addDeadLetter(letter);
+    listDeadLetters()[0].payload = "changed";
+    expect(getDeadLetter(entry.id)?.payload).toBe(letter.payload);
+  });
+
+  it("should load entries persisted earlier", async () => {
+    const entry = await addDeadLetter(letter);
+    await closeDeadLetters();
+    expect(listDeadLetters()).toEqual([]);
+    await loadDeadLetters(dir);
+    expect(listDeadLetters()).toEqual([entry]);
+  });
+
+  it("should throw on a corrupt file, start empty and keep the file's entries aside", async () => {
+    writeFileSync(join(dir, "dead-letters.json"), '[{"id": "kept"');
+    await expect(loadDeadLetters(dir)).rejects.toThrow("moved to");
+    expect(listDeadLetters()).toEqual([]);
+
+    await addDeadLetter(letter);
+    const aside = readdirSync(dir).find((name) => name.startsWith("dead-letters.json.corrupt-"))!;
+    expect(readFileSync(join(dir, aside), "utf8")).toBe('[{"id": "kept"');
+    expect(stored()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,53 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { dedupKey, forgetKey, isDuplicate, resetDedup } from "../src/dedup.js";
+
+describe("dedupKey", () => {
+  it("should ignore whitespace differences in the message", () => {
+    expect(dedupKey("a", "b", "  hello \n world ")).toBe(dedupKey("a", "b", "hello world"));
+  });
+
+  it("should keep case and content differences", () => {
+    expect(dedupKey("a", "b", "Hello")).not.toBe(dedupKey("a", "b", "hello"));
+  });
+
+  it("should include source and target", () => {
+    expect(dedupKey("a", "b", "m")).not.toBe(dedupKey("a", "c", "m"));
+    expect(dedupKey("a", "b", "m")).not.toBe(dedupKey("x", "b", "m"));
+  });
+
+  it("should use the message id instead of the text when given", () => {
+    expect(dedupKey("a", "b", "first", "42")).toBe(dedupKey("a", "b", "edited", "42"));
+    expect(dedupKey("a", "b", "same", "1")).not.toBe(dedupKey("a", "b", "same", "2"));
+  });
+});
+
+describe("isDuplicate", () => {
+  afterEach(() => {
+    resetDedup();
+  });
+
+  it("should flag repeats within the window", () => {
+    expect(isDuplicate("k", 1000, undefined, 0)).toBe(false);
+    expect(isDuplicate("k", 1000, undefined, 999)).toBe(true);
+  });
+
+  it("should let the key through again once the window has passed", () => {
+    expect(isDuplicate("k", 1000, undefined, 0)).toBe(false);
+    expect(isDuplicate("k", 1000, undefined, 1000)).toBe(false);
+    expect(isDuplicate("k", 1000, undefined, 1500)).toBe(true);
+  });
+
+  it("should forget the oldest keys beyond maxEntries", () => {
+    isDuplicate("a", 1000, 2, 0);
+    isDuplicate("b", 1000, 2, 1);
+    isDuplicate("c", 1000, 2, 2);
+    expect(isDuplicate("c", 1000, 2, 3)).toBe(true);
+    expect(isDuplicate("a", 1000, 2, 4)).toBe(false);
+  });
+
+  it("should forget keys on request", () => {
+    isDuplicate("k", 1000, undefined, 0);
+    forgetKey("k");
+    expect(isDuplicate("k", 1000, undefined, 1)).toBe(false);
+  });
+});
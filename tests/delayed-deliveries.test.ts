@@ -0,0 +1,131 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  addDelayedDelivery,
+  cancelDelayedDeliveries,
+  closeDelayedDeliveries,
+  getDelayedDelivery,
+  isDelayedDeliveryInFlight,
+  listDelayedDeliveries,
+  loadDelayedDeliveries,
+  removeDelayedDeliveries,
+  startDelayedDeliveries,
+  stopDelayedDeliveries,
+} from "../src/delayed-deliveries.js";
+import type { DelayedDelivery } from "../src/types.js";
+
+const delivery = {
+  direction: "incoming" as const,
+  source: "support",
+  target: "billing",
+  payload: "refund please",
+  path: ["support"],
+};
+
+describe("delayed delivery store", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), "delayed-deliveries-"));
+    await loadDelayedDeliveries(dir);
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await closeDelayedDeliveries();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function stored() {
+    return JSON.parse(readFileSync(join(dir, "delayed-deliveries.json"), "utf8"));
+  }
+
+  it("should persist added entries with their due time", async () => {
+    const now = new Date("2026-03-04T12:00:00Z");
+    const entry = await addDelayedDelivery(delivery, new Date("2026-03-04T13:00:00Z"), now);
+
+    expect(entry.queuedAt).toBe("2026-03-04T12:00:00.000Z");
+    expect(entry.dueAt).toBe("2026-03-04T13:00:00.000Z");
+    expect(stored()).toEqual([entry]);
+    expect(getDelayedDelivery(entry.id)).toEqual(entry);
+  });
+
+  it("should list entries soonest first", async () => {
+    const later = await addDelayedDelivery(delivery, new Date("2026-03-04T14:00:00Z"));
+    const sooner = await addDelayedDelivery(delivery, new Date("2026-03-04T13:00:00Z"));
+    expect(listDelayedDeliveries().map((e) => e.id)).toEqual([sooner.id, later.id]);
+  });
+
+  it("should reload entries after a restart", async () => {
+    const entry = await addDelayedDelivery(delivery, new Date("2026-03-04T13:00:00Z"));
+    await closeDelayedDeliveries();
+    await loadDelayedDeliveries(dir);
+    expect(listDelayedDeliveries()).toEqual([entry]);
+  });
+
+  it("should reject a file that does not hold an array", async () => {
+    writeFileSync(join(dir, "delayed-deliveries.json"), "{}");
+    await expect(loadDelayedDeliveries(dir)).rejects.toThrow("does not contain an array");
+    expect(listDelayedDeliveries()).toEqual([]);
+  });
+
+  it("should remove single entries or everything", async () => {
+    const a = await addDelayedDelivery(delivery, new Date("2026-03-04T13:00:00Z"));
+    await addDelayedDelivery(delivery, new Date("2026-03-04T13:00:00Z"));
+
+    expect(await removeDelayedDeliveries([a.id])).toBe(1);
+    expect(await removeDelayedDeliveries(["missing"])).toBe(0);
+    expect(await removeDelayedDeliveries()).toBe(1);
+    expect(stored()).toEqual([]);
+  });
+
+  it("should not cancel entries that are being delivered", async () => {
+    const due = await addDelayedDelivery(delivery, new Date(Date.now() - 1000));
+    const later = await addDelayedDelivery(delivery, new Date(Date.now() + 60_000));
+    await new Promise<DelayedDelivery>((resolve) => startDelayedDeliveries(resolve));
+
+    expect(isDelayedDeliveryInFlight(due.id)).toBe(true);
+    expect(isDelayedDeliveryInFlight(later.id)).toBe(false);
+    expect(await cancelDelayedDeliveries([due.id])).toBe(0);
+    expect(await cancelDelayedDeliveries()).toBe(1);
+    expect(listDelayedDeliveries().map((e) => e.id)).toEqual([due.id]);
+
+    expect(await removeDelayedDeliveries([due.id])).toBe(1);
+    expect(isDelayedDeliveryInFlight(due.id)).toBe(false);
+  });
+
+  it("should hand out entries once they are due, and only once", async () => {
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout", "Date"] });
+    const deliver = vi.fn();
+    startDelayedDeliveries(deliver);
+    const entry = await addDelayedDelivery(delivery, new Date(Date.now() + 1000));
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(deliver).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(deliver).toHaveBeenCalledWith(entry);
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(deliver).toHaveBeenCalledTimes(1);
+    expect(listDelayedDeliveries()).toHaveLength(1);
+  });
+
+  it("should hand out entries that fell due while stopped as soon as it starts", async () => {
+    const entry = await addDelayedDelivery(delivery, new Date(Date.now() - 1000));
+    const delivered = new Promise<DelayedDelivery>((resolve) => startDelayedDeliveries(resolve));
+    expect(await delivered).toEqual(entry);
+  });
+
+  it("should not hand out entries while stopped", async () => {
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout", "Date"] });
+    const deliver = vi.fn();
+    startDelayedDeliveries(deliver);
+    await addDelayedDelivery(delivery, new Date(Date.now() + 1000));
+    stopDelayedDeliveries();
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(deliver).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,106 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { addToDigest, type DigestItem, flushDigests, renderDigest, validateDigest } from "../src/digest.js";
+
+function item(message: string, receivedAt = Date.UTC(2026, 2, 4, 12, 0, 0)): DigestItem {
+  return { message, session: "alerts", channel: { type: "slack", id: "ops" }, receivedAt, path: ["alerts"] };
+}
+
+describe("addToDigest", () => {
+  afterEach(() => {
+    flushDigests();
+    vi.useRealTimers();
+  });
+
+  it("should deliver once the window after the first message has passed", async () => {
+    vi.useFakeTimers();
+    const deliver = vi.fn();
+    addToDigest("k", item("one"), { windowMs: 1000 }, deliver);
+    await vi.advanceTimersByTimeAsync(600);
+    addToDigest("k", item("two"), { windowMs: 1000 }, deliver);
+    await vi.advanceTimersByTimeAsync(399);
+    expect(deliver).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect(deliver).toHaveBeenCalledTimes(1);
+    expect(deliver.mock.calls[0][0].map((i: DigestItem) => i.message)).toEqual(["one", "two"]);
+  });
+
+  it("should deliver as soon as maxMessages is reached and start a new digest afterwards", () => {
+    vi.useFakeTimers();
+    const deliver = vi.fn();
+    for (const message of ["a", "b", "c"]) addToDigest("k", item(message), { maxMessages: 2 }, deliver);
+
+    expect(deliver).toHaveBeenCalledTimes(1);
+    expect(deliver.mock.calls[0][0]).toHaveLength(2);
+    expect(vi.getTimerCount()).toBe(1);
+  });
+
+  it("should keep separate digests per key", () => {
+    const deliver = vi.fn();
+    addToDigest("a", item("one"), { maxMessages: 2 }, deliver);
+    addToDigest("b", item("two"), { maxMessages: 2 }, deliver);
+    expect(deliver).not.toHaveBeenCalled();
+  });
+});
+
+describe("flushDigests", () => {
+  it("should deliver every pending digest and clear its timer", () => {
+    vi.useFakeTimers();
+    const deliver = vi.fn();
+    addToDigest("a", item("one"), {}, deliver);
+    addToDigest("b", item("two"), {}, deliver);
+
+    expect(flushDigests()).toBe(2);
+    expect(deliver).toHaveBeenCalledTimes(2);
+    expect(vi.getTimerCount()).toBe(0);
+    expect(flushDigests()).toBe(0);
+    vi.useRealTimers();
+  });
+});
+
+describe("renderDigest", () => {
+  it("should put the header above one line per message", () => {
+    expect(renderDigest([item("disk full"), item("cpu high")], {})).toBe(
+      "Digest from alerts (2 messages)\n- disk full\n- cpu high",
+    );
+  });
+
+  it("should use the configured header and format", () => {
+    const items = [item("disk full"), item("cpu high", Date.UTC(2026, 2, 4, 12, 5, 0))];
+    const text = renderDigest(
+      items,
+      { header: "[{{route}}] {{count}} alerts {{start}} - {{end}}", format: "* {{channel.type}}#{{channel.id}} {{message}}" },
+      "ops-digest",
+    );
+    expect(text).toBe(
+      "[ops-digest] 2 alerts 2026-03-04T12:00:00.000Z - 2026-03-04T12:05:00.000Z\n* slack#ops disk full\n* slack#ops cpu high",
+    );
+  });
+
+  it("should leave out an empty header", () => {
+    expect(renderDigest([item("one")], { header: "" })).toBe("- one");
+  });
+});
+
+describe("validateDigest", () => {
+  it("should accept a valid config", () => {
+    expect(validateDigest({ windowMs: 1000, maxMessages: 10, header: "{{count}} from {{session}}", format: "{{message}}" })).toEqual(
+      [],
+    );
+  });
+
+  it("should report bad limits", () => {
+    expect(validateDigest({ windowMs: 0, maxMessages: 1.5 })).toEqual([
+      "windowMs must be a positive integer",
+      "maxMessages must be a positive integer",
+    ]);
+  });
+
+  it("should check placeholders against the right list", () => {
+    const problems = validateDigest({ header: "{{message}}", format: "{{count}}" });
+    expect(problems).toHaveLength(2);
+    expect(problems[0]).toMatch(/^header has unknown placeholder "\{\{message\}\}"/);
+    expect(problems[1]).toMatch(/^format has unknown placeholder "\{\{count\}\}"/);
+  });
+});
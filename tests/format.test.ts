@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { formatForChannel, resolveFormatProfile } from "../src/format.js";
+
+describe("formatForChannel", () => {
+  it("should leave markdown unchanged", () => {
+    expect(formatForChannel("**bold** _it_", "markdown")).toBe("**bold** _it_");
+  });
+
+  describe("slack", () => {
+    it("should convert bold, italic and strikethrough", () => {
+      expect(formatForChannel("**bold** and *it* and ~~gone~~", "slack")).toBe("*bold* and _it_ and ~gone~");
+      expect(formatForChannel("__bold__", "slack")).toBe("*bold*");
+    });
+
+    it("should convert links", () => {
+      expect(formatForChannel("see [docs](https://example.com/a)", "slack")).toBe("see <https://example.com/a|docs>");
+    });
+
+    it("should convert headings to bold lines and bullets to dots", () => {
+      expect(formatForChannel("## Status\n- one\n* two", "slack")).toBe("*Status*\n• one\n• two");
+    });
+
+    it("should not touch code", () => {
+      const text = "run `**x**`\n```\n**not bold**\n```";
+      expect(formatForChannel(text, "slack")).toBe(text);
+    });
+  });
+
+  describe("plain", () => {
+    it("should strip emphasis markers", () => {
+      expect(formatForChannel("**bold**, *it*, _also_ and ~~gone~~", "plain")).toBe("bold, it, also and gone");
+    });
+
+    it("should keep identifiers with underscores", () => {
+      expect(formatForChannel("set snake_case_name", "plain")).toBe("set snake_case_name");
+    });
+
+    it("should spell out links", () => {
+      expect(formatForChannel("[docs](https://example.com)", "plain")).toBe("docs (https://example.com)");
+    });
+
+    it("should strip headings, quotes and code markers", () => {
+      expect(formatForChannel("# Title\n> quoted\nuse `npm test`\n```sh\nnpm i\n```", "plain")).toBe(
+        "Title\nquoted\nuse npm test\nnpm i",
+      );
+    });
+  });
+});
+
+describe("resolveFormatProfile", () => {
+  it("should prefer the route format", () => {
+    expect(resolveFormatProfile("slack", "plain", { slack: "markdown" })).toBe("plain");
+  });
+
+  it("should fall back to the configured channel format", () => {
+    expect(resolveFormatProfile("slack", undefined, { slack: "markdown" })).toBe("markdown");
+  });
+
+  it("should fall back to built-in defaults, then markdown", () => {
+    expect(resolveFormatProfile("slack", undefined, undefined)).toBe("slack");
+    expect(resolveFormatProfile("sms", undefined, {})).toBe("plain");
+    expect(resolveFormatProfile("discord", undefined, undefined)).toBe("markdown");
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { awaitReplies, renderAggregatorPrompt, renderReplies, validateGather } from "../src/gather.js";
+
+describe("awaitReplies", () => {
+  function pending(session: string, reply: string | null, delayMs = 0) {
+    return { session, reply: new Promise<string | null>((resolve) => setTimeout(() => resolve(reply), delayMs)) };
+  }
+
+  it("should collect every reply and leave out missing ones", async () => {
+    expect(await awaitReplies([pending("billing", null), pending("engineering", "on it")])).toEqual([
+      { session: "engineering", message: "on it" },
+    ]);
+  });
+
+  it("should take the first reply to arrive", async () => {
+    const replies = [pending("billing", "slow", 20), pending("engineering", null), pending("sales", "fast", 5)];
+    expect(await awaitReplies(replies, true)).toEqual([{ session: "sales", message: "fast" }]);
+  });
+
+  it("should return nothing when no reply comes", async () => {
+    expect(await awaitReplies([pending("billing", null)], true)).toEqual([]);
+    expect(await awaitReplies([], true)).toEqual([]);
+  });
+});
+
+describe("renderReplies", () => {
+  const replies = [
+    { session: "billing", message: "Refund issued." },
+    { session: "engineering", message: "Bug fixed." },
+  ];
+
+  it("should put each reply under its session", () => {
+    expect(renderReplies(replies, {})).toBe("**billing**\nRefund issued.\n\n**engineering**\nBug fixed.");
+  });
+
+  it("should use a custom format", () => {
+    expect(renderReplies(replies, { format: "{{route}}/{{session}}: {{message}}" }, "ask")).toBe(
+      "ask/billing: Refund issued.\n\nask/engineering: Bug fixed.",
+    );
+  });
+
+  it("should ask the aggregator about the original message", () => {
+    expect(renderAggregatorPrompt("Status?", replies.slice(0, 1), {})).toBe(
+      'Combine these replies to "Status?" into one answer:\n\n**billing**\nRefund issued.',
+    );
+    expect(renderAggregatorPrompt("Status?", replies.slice(0, 1), { prompt: "{{replies}}", format: "{{message}}" })).toBe(
+      "Refund issued.",
+    );
+  });
+});
+
+describe("validateGather", () => {
+  it("should accept a complete config", () => {
+    expect(validateGather({ timeoutMs: 5000, merge: "aggregate", aggregator: "lead", format: "{{session}}: {{message}}" })).toEqual(
+      [],
+    );
+  });
+
+  it("should report bad settings", () => {
+    expect(
+      validateGather({ timeoutMs: 0, merge: "vote" as any, prompt: "{{target}}", format: 1 as any }),
+    ).toEqual([
+      "timeoutMs must be a positive number",
+      "merge must be one of concat, first, aggregate",
+      "format must be a string",
+      expect.stringContaining("prompt has"),
+    ]);
+  });
+
+  it("should require an aggregator for the aggregate merge", () => {
+    expect(validateGather({ merge: "aggregate" })).toEqual([
+      'aggregator must be a session name when merge is "aggregate"',
+    ]);
+  });
+});
@@ -1,10 +1,21 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import http, { type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { hashTarget } from "../src/affinity.js";
 import { matchesRoute } from "../src/index.js";
 
 // The plugin uses module-level state, so we need to re-import for isolation
 // We'll dynamically import it in each test suite
 
+// Each mock context gets its own plugin dir so dead letters never leak between tests
+const pluginDirs: string[] = [];
+
 function createMockContext(configOverride: Record<string, unknown> = {}) {
+  const pluginDir = mkdtempSync(join(tmpdir(), "wopr-plugin-router-"));
+  pluginDirs.push(pluginDir);
   const config = {
     uiPort: 0, // random port to avoid conflicts
     routes: [],
@@ -14,7 +25,7 @@ function createMockContext(configOverride: Record<string, unknown> = {}) {
 
   let registeredMiddleware: {
     name: string;
-    onIncoming?(input: { session: string; channel?: { type: string; id: string }; message: string }): Promise<string>;
+    onIncoming?(input: { session: string; channel?: { type: string; id: string }; message: string }): Promise<string | null>;
     onOutgoing?(output: { session: string; response: string }): Promise<string>;
   } | null = null;
 
@@ -27,9 +38,10 @@ function createMockContext(configOverride: Record<string, unknown> = {}) {
       error: vi.fn(),
     },
     getConfig: vi.fn(() => config),
-    getPluginDir: vi.fn(() => "/tmp/wopr-plugin-router-coder-2"),
+    getPluginDir: vi.fn(() => pluginDir),
     inject: vi.fn(async () => {}),
     getChannelsForSession: vi.fn(() => []),
+    getChannel: vi.fn((_channel: any): any => undefined),
     registerMiddleware: vi.fn((mw: typeof registeredMiddleware) => {
       registeredMiddleware = mw;
     }),
@@ -88,6 +100,33 @@ describe("matchesRoute (exported)", () => {
   it("should return false when channelId specified but no channel on input", () => {
     expect(matchesRoute({ channelId: "ch1" }, { session: "a", message: "m" })).toBe(false);
   });
+
+  it("should match sourceSession globs", () => {
+    expect(matchesRoute({ sourceSession: "support-*" }, { session: "support-eu-1", message: "m" })).toBe(true);
+    expect(matchesRoute({ sourceSession: "support-*" }, { session: "billing", message: "m" })).toBe(false);
+  });
+
+  it("should match on message content", () => {
+    const route = { content: { commandPrefix: "!billing" } };
+    expect(matchesRoute(route, { session: "front", message: "!billing refund" })).toBe(true);
+    expect(matchesRoute(route, { session: "front", message: "site down" })).toBe(false);
+  });
+
+  it("should combine flat fields with the match expression", () => {
+    const route = {
+      sourceSession: "front",
+      match: { all: [{ any: [{ channelType: "discord" }, { channelType: "slack" }] }, { not: { channelId: "42" } }] },
+    };
+    expect(matchesRoute(route, { session: "front", channel: { type: "slack", id: "1" }, message: "m" })).toBe(true);
+    expect(matchesRoute(route, { session: "front", channel: { type: "discord", id: "42" }, message: "m" })).toBe(false);
+    expect(matchesRoute(route, { session: "other", channel: { type: "slack", id: "1" }, message: "m" })).toBe(false);
+  });
+
+  it("should match channel regex patterns", () => {
+    const route = { channelType: "/^(discord|slack)$/", channelId: "alerts-*" };
+    expect(matchesRoute(route, { session: "a", channel: { type: "slack", id: "alerts-prod" }, message: "m" })).toBe(true);
+    expect(matchesRoute(route, { session: "a", channel: { type: "irc", id: "alerts-prod" }, message: "m" })).toBe(false);
+  });
 });
 
 describe("router plugin", () => {
@@ -100,6 +139,16 @@ describe("router plugin", () => {
     plugin = mod.default;
   });
 
+  // Init the plugin and return the base URL of its UI server, which listens on a random port
+  async function initWithUIServer(ctx: any): Promise<string> {
+    const createServer = vi.spyOn(http, "createServer");
+    await plugin.init(ctx);
+    const server = createServer.mock.results[0].value as Server;
+    createServer.mockRestore();
+    if (!server.listening) await new Promise((resolve) => server.once("listening", resolve));
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
   afterEach(async () => {
     // Ensure server is shut down after each test
     try {
@@ -107,6 +156,7 @@ describe("router plugin", () => {
     } catch {
       // ignore if already shut down
     }
+    for (const dir of pluginDirs.splice(0)) rmSync(dir, { recursive: true, force: true });
   });
 
   describe("metadata", () => {
@@ -162,6 +212,31 @@ describe("router plugin", () => {
       expect(call.moduleUrl).toContain("7333");
     });
 
+    it("should only serve payloads and changes over HTTP to requests with the X-WOPR-Router header", async () => {
+      const { ctx } = createMockContext();
+      const base = await initWithUIServer(ctx);
+
+      for (const path of ["/api/webmcp/dead-letters", "/api/webmcp/delayed", "/api/webmcp/affinity"]) {
+        const denied = await fetch(`${base}${path}`);
+        expect(denied.status).toBe(403);
+        expect(denied.headers.get("access-control-allow-origin")).toBeNull();
+        const allowed = await fetch(`${base}${path}`, { headers: { "X-WOPR-Router": "1" } });
+        expect(allowed.status).toBe(200);
+        expect(allowed.headers.get("access-control-allow-origin")).toBeNull();
+      }
+      expect((await fetch(`${base}/api/webmcp/dead-letters/x/replay`, { method: "POST" })).status).toBe(403);
+      expect((await fetch(`${base}/api/webmcp/stats`)).headers.get("access-control-allow-origin")).toBe("*");
+    });
+
+    it("should log invalid route patterns on init", async () => {
+      const { ctx } = createMockContext({
+        routes: [{ sourceSession: "/(bad/", targetSessions: ["b"] }],
+      });
+      await plugin.init(ctx);
+
+      expect(ctx.log.error).toHaveBeenCalledWith(expect.stringContaining("routes[0].sourceSession"));
+    });
+
     it("should skip registerUiComponent when not available", async () => {
       const { ctx } = createMockContext();
       const ctxNoUi = { ...ctx, registerUiComponent: undefined };
@@ -421,6 +496,24 @@ describe("router plugin", () => {
       expect(ctx.inject).not.toHaveBeenCalled();
     });
 
+    it("should route by message content to different sessions", async () => {
+      const { ctx, getRegisteredMiddleware } = createMockContext({
+        routes: [
+          { sourceSession: "front", content: { keywords: ["invoice", "refund"] }, targetSessions: ["billing"] },
+          { sourceSession: "front", content: { regex: "outage|down" }, targetSessions: ["oncall"] },
+        ],
+      });
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
+
+      await mw.onIncoming!({ session: "front", message: "Need a refund" });
+      await mw.onIncoming!({ session: "front", message: "API is down" });
+
+      expect(ctx.inject).toHaveBeenCalledTimes(2);
+      expect(ctx.inject).toHaveBeenCalledWith("billing", "Need a refund");
+      expect(ctx.inject).toHaveBeenCalledWith("oncall", "API is down");
+    });
+
     it("should re-read config on each invocation", async () => {
       const { ctx, getRegisteredMiddleware, updateConfig } = createMockContext({
         routes: [],
@@ -504,6 +597,55 @@ describe("router plugin", () => {
       expect(send2).toHaveBeenCalledWith("broadcast reply");
     });
 
+    it("should filter channels by pattern", async () => {
+      const send1 = vi.fn(async () => {});
+      const send2 = vi.fn(async () => {});
+      const { ctx, getRegisteredMiddleware } = createMockContext({
+        outgoingRoutes: [{ sourceSession: "support-*", channelId: "audit-*" }],
+      });
+      ctx.getChannelsForSession.mockReturnValue([
+        { channel: { type: "discord", id: "general" }, send: send1 },
+        { channel: { type: "discord", id: "audit-eu" }, send: send2 },
+      ]);
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
+
+      await mw.onOutgoing!({
+        session: "support-eu-1",
+        response: "reply",
+      });
+
+      expect(send1).not.toHaveBeenCalled();
+      expect(send2).toHaveBeenCalledWith("reply");
+    });
+
+    it("should evaluate the match expression per channel", async () => {
+      const send1 = vi.fn(async () => {});
+      const send2 = vi.fn(async () => {});
+      const send3 = vi.fn(async () => {});
+      const { ctx, getRegisteredMiddleware } = createMockContext({
+        outgoingRoutes: [
+          {
+            sourceSession: "session-a",
+            match: { all: [{ any: [{ channelType: "discord" }, { channelType: "slack" }] }, { not: { channelId: "42" } }] },
+          },
+        ],
+      });
+      ctx.getChannelsForSession.mockReturnValue([
+        { channel: { type: "discord", id: "1" }, send: send1 },
+        { channel: { type: "discord", id: "42" }, send: send2 },
+        { channel: { type: "sms", id: "2" }, send: send3 },
+      ]);
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
+
+      await mw.onOutgoing!({ session: "session-a", response: "reply" });
+
+      expect(send1).toHaveBeenCalledWith("reply");
+      expect(send2).not.toHaveBeenCalled();
+      expect(send3).not.toHaveBeenCalled();
+    });
+
     it("should filter by channelId", async () => {
       const send1 = vi.fn(async () => {});
       const send2 = vi.fn(async () => {});
@@ -557,6 +699,81 @@ describe("router plugin", () => {
     });
   });
 
+  describe("cross-session outgoing routes", () => {
+    async function call(server: any, name: string, args: Record<string, unknown> = {}) {
+      const result = await server.tools.find((t: any) => t.name === name).handler(args);
+      return JSON.parse(result.content[0].text);
+    }
+
+    it("should send to channels owned by other sessions", async () => {
+      const auditSend = vi.fn(async () => {});
+      const ownSend = vi.fn(async () => {});
+      const { ctx, getRegisteredMiddleware, getRegisteredA2AServer } = createMockContext({
+        outgoingRoutes: [{ sourceSession: "support", targetChannels: [{ type: "slack", id: "audit" }] }],
+      });
+      ctx.getChannelsForSession.mockReturnValue([{ channel: { type: "discord", id: "ticket" }, send: ownSend }]);
+      ctx.getChannel.mockImplementation((channel: any) =>
+        channel.type === "slack" && channel.id === "audit"
+          ? { channel: { type: "slack", id: "audit" }, session: "compliance", send: auditSend }
+          : undefined,
+      );
+      await plugin.init(ctx);
+
+      await getRegisteredMiddleware()!.onOutgoing!({ session: "support", response: "answer" });
+
+      expect(ctx.getChannel).toHaveBeenCalledWith({ type: "slack", id: "audit" });
+      expect(auditSend).toHaveBeenCalledWith("answer");
+      expect(ownSend).not.toHaveBeenCalled();
+      expect((await call(getRegisteredA2AServer(), "router.stats")).messages.outgoingRouted).toBe(1);
+    });
+
+    it("should filter target channels by the route's channel fields", async () => {
+      const slackSend = vi.fn(async () => {});
+      const { ctx, getRegisteredMiddleware, getRegisteredA2AServer } = createMockContext({
+        outgoingRoutes: [
+          {
+            targetChannels: [
+              { type: "slack", id: "audit" },
+              { type: "discord", id: "log" },
+            ],
+            channelType: "slack",
+          },
+        ],
+      });
+      ctx.getChannel.mockImplementation((channel: any) =>
+        channel.type === "slack" ? { channel, session: "compliance", send: slackSend } : undefined,
+      );
+      await plugin.init(ctx);
+
+      await getRegisteredMiddleware()!.onOutgoing!({ session: "support", response: "answer" });
+
+      expect(slackSend).toHaveBeenCalledWith("answer");
+      expect((await call(getRegisteredA2AServer(), "router.stats")).messages.errors).toBe(0);
+    });
+
+    it("should report unresolved target channels as errors and replay them once available", async () => {
+      const auditSend = vi.fn(async () => {});
+      const { ctx, getRegisteredMiddleware, getRegisteredA2AServer } = createMockContext({
+        outgoingRoutes: [{ name: "audit", targetChannels: [{ type: "slack", id: "audit" }], template: "[audit] {{message}}" }],
+      });
+      await plugin.init(ctx);
+
+      await getRegisteredMiddleware()!.onOutgoing!({ session: "support", response: "answer" });
+
+      const server = getRegisteredA2AServer();
+      expect(ctx.log.error).toHaveBeenCalledWith(expect.stringContaining("channel slack:audit is not available"));
+      expect((await call(server, "router.stats")).messages.errors).toBe(1);
+      const letters = await call(server, "router.deadLetters.list");
+      expect(letters.entries).toMatchObject([
+        { direction: "outgoing", route: "audit", source: "support", target: "slack:audit", attempts: 0 },
+      ]);
+
+      ctx.getChannel.mockReturnValue({ channel: { type: "slack", id: "audit" }, session: "compliance", send: auditSend });
+      expect(await call(server, "router.deadLetters.replay", { id: letters.entries[0].id })).toEqual({ replayed: true });
+      expect(auditSend).toHaveBeenCalledWith("[audit] answer");
+    });
+  });
+
   describe("route matching combinations", () => {
     it("should require all specified fields to match", async () => {
       const { ctx, getRegisteredMiddleware } = createMockContext({
@@ -628,54 +845,1768 @@ describe("router plugin", () => {
     });
   });
 
-  describe("error paths in fan-out", () => {
-    it("should log error and increment errors when inject throws", async () => {
+  describe("route ordering", () => {
+    it("should stop at a final route and skip lower-priority routes", async () => {
       const { ctx, getRegisteredMiddleware } = createMockContext({
-        routes: [{ sourceSession: "session-a", targetSessions: ["session-b"] }],
+        routes: [
+          { targetSessions: ["catch-all"] },
+          { sourceSession: "support-*", targetSessions: ["support-lead"], priority: 10, final: true },
+        ],
       });
-      ctx.inject.mockRejectedValueOnce(new Error("inject failed"));
       await plugin.init(ctx);
       const mw = getRegisteredMiddleware()!;
 
-      const result = await mw.onIncoming!({
-        session: "session-a",
-        message: "hello",
+      await mw.onIncoming!({ session: "support-eu-1", message: "hello" });
+
+      expect(ctx.inject).toHaveBeenCalledTimes(1);
+      expect(ctx.inject).toHaveBeenCalledWith("support-lead", "hello");
+    });
+
+    it("should run the fallback route only when nothing else matched", async () => {
+      const { ctx, getRegisteredMiddleware } = createMockContext({
+        routes: [
+          { sourceSession: "support", targetSessions: ["billing"] },
+          { targetSessions: ["unrouted"], fallback: true },
+        ],
       });
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
 
-      expect(result).toBe("hello");
-      expect(ctx.log.error).toHaveBeenCalledWith(expect.stringContaining("Failed to route"));
+      await mw.onIncoming!({ session: "support", message: "one" });
+      await mw.onIncoming!({ session: "sales", message: "two" });
+
+      expect(ctx.inject).toHaveBeenCalledTimes(2);
+      expect(ctx.inject).toHaveBeenCalledWith("billing", "one");
+      expect(ctx.inject).toHaveBeenCalledWith("unrouted", "two");
     });
 
-    it("should log error and increment errors when channel send throws", async () => {
-      const failSend = vi.fn(async () => { throw new Error("send failed"); });
+    it("should not double-deliver to channels when an outgoing route is final", async () => {
+      const send = vi.fn(async () => {});
       const { ctx, getRegisteredMiddleware } = createMockContext({
-        outgoingRoutes: [{ sourceSession: "session-a" }],
+        outgoingRoutes: [
+          { sourceSession: "session-a", channelType: "discord", final: true, priority: 1 },
+          { sourceSession: "session-a" },
+        ],
+      });
+      ctx.getChannelsForSession.mockReturnValue([{ channel: { type: "discord", id: "ch1" }, send }]);
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
+
+      await mw.onOutgoing!({ session: "session-a", response: "reply" });
+
+      expect(send).toHaveBeenCalledTimes(1);
+    });
+
+    it("should use the outgoing fallback when no channel matched other routes", async () => {
+      const send = vi.fn(async () => {});
+      const { ctx, getRegisteredMiddleware } = createMockContext({
+        outgoingRoutes: [{ sourceSession: "session-a", channelType: "slack" }, { fallback: true }],
+      });
+      ctx.getChannelsForSession.mockReturnValue([{ channel: { type: "discord", id: "ch1" }, send }]);
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
+
+      await mw.onOutgoing!({ session: "session-a", response: "reply" });
+
+      expect(send).toHaveBeenCalledWith("reply");
+    });
+  });
+
+  describe("scheduled routes", () => {
+    it("should not match outside the window when there are no outsideTargets", async () => {
+      const { ctx, getRegisteredMiddleware } = createMockContext({
+        routes: [{ sourceSession: "alerts", targetSessions: ["day-shift"], schedule: { start: "00:00", end: "00:00" } }],
+      });
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
+
+      await mw.onIncoming!({ session: "alerts", message: "page" });
+
+      expect(ctx.inject).not.toHaveBeenCalled();
+    });
+
+    it("should deliver to outsideTargets outside the window", async () => {
+      const { ctx, getRegisteredMiddleware } = createMockContext({
+        routes: [
+          {
+            sourceSession: "alerts",
+            targetSessions: ["day-shift"],
+            schedule: { start: "00:00", end: "00:00", outsideTargets: ["oncall"] },
+          },
+        ],
+      });
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
+
+      await mw.onIncoming!({ session: "alerts", message: "page" });
+
+      expect(ctx.inject).toHaveBeenCalledTimes(1);
+      expect(ctx.inject).toHaveBeenCalledWith("oncall", "page");
+    });
+
+    it("should deliver to targetSessions inside the window", async () => {
+      const { ctx, getRegisteredMiddleware } = createMockContext({
+        routes: [
+          {
+            sourceSession: "alerts",
+            targetSessions: ["day-shift"],
+            schedule: { start: "00:00", end: "23:59", days: ["mon", "tue", "wed", "thu", "fri", "sat", "sun"] },
+          },
+        ],
+      });
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(new Date(2026, 2, 4, 12, 0));
+      try {
+        await plugin.init(ctx);
+        const mw = getRegisteredMiddleware()!;
+        await mw.onIncoming!({ session: "alerts", message: "page" });
+      } finally {
+        vi.useRealTimers();
+      }
+
+      expect(ctx.inject).toHaveBeenCalledWith("day-shift", "page");
+    });
+  });
+
+  describe("templates", () => {
+    it("should render the route template for each injected message", async () => {
+      const { ctx, getRegisteredMiddleware } = createMockContext({
+        routes: [
+          {
+            name: "support-fwd",
+            sourceSession: "support",
+            targetSessions: ["billing"],
+            template: "[{{channel.type}}#{{channel.id}} via {{session}} / {{route}}] {{message}}",
+          },
+        ],
+      });
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
+
+      const result = await mw.onIncoming!({ session: "support", channel: { type: "discord", id: "42" }, message: "hi" });
+
+      expect(result).toBe("hi");
+      expect(ctx.inject).toHaveBeenCalledWith("billing", "[discord#42 via support / support-fwd] hi");
+    });
+
+    it("should render outgoing templates per destination channel", async () => {
+      const send1 = vi.fn(async () => {});
+      const send2 = vi.fn(async () => {});
+      const { ctx, getRegisteredMiddleware } = createMockContext({
+        outgoingRoutes: [{ sourceSession: "support", template: "{{session}} -> {{channel.type}}: {{message}}" }],
       });
       ctx.getChannelsForSession.mockReturnValue([
-        { channel: { type: "discord", id: "ch1" }, send: failSend },
+        { channel: { type: "discord", id: "1" }, send: send1 },
+        { channel: { type: "slack", id: "2" }, send: send2 },
       ]);
       await plugin.init(ctx);
       const mw = getRegisteredMiddleware()!;
 
-      const result = await mw.onOutgoing!({
-        session: "session-a",
-        response: "reply",
+      const result = await mw.onOutgoing!({ session: "support", response: "done" });
+
+      expect(result).toBe("done");
+      expect(send1).toHaveBeenCalledWith("support -> discord: done");
+      expect(send2).toHaveBeenCalledWith("support -> slack: done");
+    });
+  });
+
+  describe("transforms", () => {
+    it("should scrub messages before injecting them, then apply the template", async () => {
+      const { ctx, getRegisteredMiddleware } = createMockContext({
+        routes: [
+          {
+            sourceSession: "support",
+            targetSessions: ["internal"],
+            transforms: [{ type: "redact", preset: "email" }, { type: "normalizeWhitespace" }],
+            template: "[fwd] {{message}}",
+          },
+        ],
+      });
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
+
+      const result = await mw.onIncoming!({ session: "support", message: "  reach me at jo@example.com  " });
+
+      expect(result).toBe("  reach me at jo@example.com  ");
+      expect(ctx.inject).toHaveBeenCalledWith("internal", "[fwd] reach me at [REDACTED]");
+    });
+
+    it("should transform outgoing responses before sending", async () => {
+      const send = vi.fn(async () => {});
+      const { ctx, getRegisteredMiddleware } = createMockContext({
+        outgoingRoutes: [{ sourceSession: "support", transforms: [{ type: "truncate", maxLength: 4, suffix: "" }] }],
       });
+      ctx.getChannelsForSession.mockReturnValue([{ channel: { type: "discord", id: "1" }, send }]);
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
 
-      expect(result).toBe("reply");
-      expect(ctx.log.error).toHaveBeenCalledWith(expect.stringContaining("Failed to send"));
+      const result = await mw.onOutgoing!({ session: "support", response: "long reply" });
+
+      expect(result).toBe("long reply");
+      expect(send).toHaveBeenCalledWith("long");
+    });
+
+    it("should replace whole messages when a redact pattern does not compile, and report it once", async () => {
+      const send = vi.fn(async () => {});
+      const transforms = [{ type: "redact", pattern: "/(\\d{4}-/", replacement: "[scrubbed]" }];
+      const { ctx, getRegisteredMiddleware } = createMockContext({
+        routes: [{ name: "scrub", sourceSession: "support", targetSessions: ["internal"], transforms }],
+        outgoingRoutes: [{ name: "scrub-out", sourceSession: "support", transforms }],
+      });
+      ctx.getChannelsForSession.mockReturnValue([{ channel: { type: "discord", id: "1" }, send }]);
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
+      ctx.log.error.mockClear();
+
+      const card = "customer 4111-1111-1111-1111";
+      await expect(mw.onIncoming!({ session: "support", message: card })).resolves.toBe(card);
+      await expect(mw.onIncoming!({ session: "support", message: "hello again" })).resolves.toBe("hello again");
+      await expect(mw.onOutgoing!({ session: "support", response: card })).resolves.toBe(card);
+
+      expect(ctx.inject.mock.calls).toEqual([
+        ["internal", "[scrubbed]"],
+        ["internal", "[scrubbed]"],
+      ]);
+      expect(send).toHaveBeenCalledWith("[scrubbed]");
+      const reports = ctx.log.error.mock.calls.filter(([msg]: [string]) => msg.includes("(\\d{4}-"));
+      expect(reports).toHaveLength(1);
+      expect(reports[0][0]).toContain("Redact step of route scrub replaces whole messages");
     });
   });
 
-  describe("A2A router.stats tool", () => {
-    it("should register A2A server with router.stats tool", async () => {
-      const { ctx, getRegisteredA2AServer } = createMockContext();
+  describe("channel formatting", () => {
+    it("should render responses per channel type", async () => {
+      const discordSend = vi.fn(async () => {});
+      const slackSend = vi.fn(async () => {});
+      const smsSend = vi.fn(async () => {});
+      const { ctx, getRegisteredMiddleware } = createMockContext({
+        outgoingRoutes: [{ sourceSession: "support" }],
+        channelFormats: { sms: "plain" },
+      });
+      ctx.getChannelsForSession.mockReturnValue([
+        { channel: { type: "discord", id: "1" }, send: discordSend },
+        { channel: { type: "slack", id: "2" }, send: slackSend },
+        { channel: { type: "sms", id: "3" }, send: smsSend },
+      ]);
       await plugin.init(ctx);
-      const server = getRegisteredA2AServer();
-      expect(server).not.toBeNull();
-      expect(server.name).toBe("router");
-      expect(server.tools).toHaveLength(1);
-      expect(server.tools[0].name).toBe("router.stats");
+      const mw = getRegisteredMiddleware()!;
+
+      const result = await mw.onOutgoing!({ session: "support", response: "**Done**" });
+
+      expect(result).toBe("**Done**");
+      expect(discordSend).toHaveBeenCalledWith("**Done**");
+      expect(slackSend).toHaveBeenCalledWith("*Done*");
+      expect(smsSend).toHaveBeenCalledWith("Done");
+    });
+
+    it("should let the route format override channel defaults", async () => {
+      const slackSend = vi.fn(async () => {});
+      const { ctx, getRegisteredMiddleware } = createMockContext({
+        outgoingRoutes: [{ sourceSession: "support", format: "markdown" }],
+      });
+      ctx.getChannelsForSession.mockReturnValue([{ channel: { type: "slack", id: "2" }, send: slackSend }]);
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
+
+      await mw.onOutgoing!({ session: "support", response: "**Done**" });
+
+      expect(slackSend).toHaveBeenCalledWith("**Done**");
+    });
+  });
+
+  describe("chunking", () => {
+    it("should send long responses in ordered, numbered chunks", async () => {
+      const send = vi.fn(async () => {});
+      const { ctx, getRegisteredMiddleware } = createMockContext({
+        outgoingRoutes: [{ sourceSession: "support" }],
+        chunking: { limits: { sms: 30 }, numbering: true },
+      });
+      ctx.getChannelsForSession.mockReturnValue([{ channel: { type: "sms", id: "1" }, send }]);
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
+
+      await mw.onOutgoing!({ session: "support", response: "First paragraph.\n\nSecond paragraph." });
+
+      expect(send.mock.calls.map((c) => c[0])).toEqual(["First paragraph.\n(1/2)", "Second paragraph.\n(2/2)"]);
+    });
+
+    it("should stop at a failed chunk and keep it and the rest as dead letters", async () => {
+      const send = vi.fn(async () => {});
+      send.mockResolvedValueOnce(undefined).mockRejectedValueOnce(new Error("rate limited"));
+      const { ctx, getRegisteredMiddleware } = createMockContext({
+        outgoingRoutes: [{ sourceSession: "support" }],
+        chunking: { limits: { sms: 20 } },
+      });
+      ctx.getChannelsForSession.mockReturnValue([{ channel: { type: "sms", id: "1" }, send }]);
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
+
+      await mw.onOutgoing!({
+        session: "support",
+        response: "First paragraph.\n\nSecond paragraph.\n\nThird paragraph.",
+      });
+
+      expect(send.mock.calls.map((c) => c[0])).toEqual(["First paragraph.", "Second paragraph."]);
+      expect(ctx.log.error).toHaveBeenCalledWith(expect.stringContaining("(chunk 2/3)"));
+      const stored = JSON.parse(readFileSync(join(ctx.getPluginDir(), "dead-letters.json"), "utf8"));
+      expect(stored).toMatchObject([
+        { payload: "Second paragraph.", error: "Error: rate limited", attempts: 1 },
+        { payload: "Third paragraph.", error: "not sent after chunk 2/3 failed", attempts: 0 },
+      ]);
+    });
+  });
+
+  describe("concurrent fan-out", () => {
+    it("should inject into targets in parallel up to the concurrency limit", async () => {
+      const { ctx, getRegisteredMiddleware } = createMockContext({
+        routes: [{ sourceSession: "a", targetSessions: ["t1", "t2", "t3", "t4"] }],
+        fanOut: { concurrency: 2 },
+      });
+      let inFlight = 0;
+      let maxInFlight = 0;
+      ctx.inject.mockImplementation(async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((r) => setTimeout(r, 5));
+        inFlight--;
+      });
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
+
+      await mw.onIncoming!({ session: "a", message: "m" });
+
+      expect(ctx.inject).toHaveBeenCalledTimes(4);
+      expect(maxInFlight).toBe(2);
+    });
+
+    it("should return immediately in background mode and finish delivery on shutdown", async () => {
+      const { ctx, getRegisteredMiddleware } = createMockContext({
+        routes: [{ sourceSession: "a", targetSessions: ["b"] }],
+        fanOut: { background: true },
+      });
+      let release!: () => void;
+      const delivered = vi.fn();
+      ctx.inject.mockImplementation(
+        () =>
+          new Promise<void>((resolve) => {
+            release = () => {
+              delivered();
+              resolve();
+            };
+          }),
+      );
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
+
+      const result = await mw.onIncoming!({ session: "a", message: "m" });
+      expect(result).toBe("m");
+      expect(ctx.inject).toHaveBeenCalledWith("b", "m");
+      expect(delivered).not.toHaveBeenCalled();
+
+      const shutdown = plugin.shutdown();
+      release();
+      await shutdown;
+      expect(delivered).toHaveBeenCalled();
+    });
+
+    it("should let a route opt into background delivery", async () => {
+      const { ctx, getRegisteredMiddleware } = createMockContext({
+        routes: [{ sourceSession: "a", targetSessions: ["b"], background: true }],
+      });
+      let release!: () => void;
+      ctx.inject.mockImplementation(
+        () =>
+          new Promise<void>((resolve) => {
+            release = resolve;
+          }),
+      );
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
+
+      // Would hang if the route were delivered in the foreground
+      const result = await mw.onIncoming!({ session: "a", message: "m" });
+      expect(result).toBe("m");
+      release();
+    });
+  });
+
+  describe("route modes", () => {
+    it("should keep the message for the source session in copy mode", async () => {
+      const { ctx, getRegisteredMiddleware } = createMockContext({
+        routes: [{ sourceSession: "triage", targetSessions: ["billing"], mode: "copy" }],
+      });
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
+
+      const result = await mw.onIncoming!({ session: "triage", message: "hello" });
+
+      expect(result).toBe("hello");
+      expect(ctx.inject).toHaveBeenCalledWith("billing", "hello");
+    });
+
+    it("should hand the message off in divert mode", async () => {
+      const { ctx, getRegisteredMiddleware } = createMockContext({
+        routes: [{ sourceSession: "triage", targetSessions: ["billing"], mode: "divert" }],
+      });
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
+
+      const result = await mw.onIncoming!({ session: "triage", message: "hello" });
+
+      expect(result).toBeNull();
+      expect(ctx.inject).toHaveBeenCalledWith("billing", "hello");
+    });
+
+    it("should discard the message in drop mode", async () => {
+      const { ctx, getRegisteredMiddleware } = createMockContext({
+        routes: [{ sourceSession: "triage", content: { contains: "spam" }, targetSessions: ["billing"], mode: "drop" }],
+      });
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
+
+      const result = await mw.onIncoming!({ session: "triage", message: "buy spam now" });
+
+      expect(result).toBeNull();
+      expect(ctx.inject).not.toHaveBeenCalled();
+    });
+
+    it("should consume the message when any matching route diverts", async () => {
+      const { ctx, getRegisteredMiddleware } = createMockContext({
+        routes: [
+          { sourceSession: "triage", targetSessions: ["audit"] },
+          { sourceSession: "triage", targetSessions: ["billing"], mode: "divert" },
+        ],
+      });
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
+
+      const result = await mw.onIncoming!({ session: "triage", message: "hello" });
+
+      expect(result).toBeNull();
+      expect(ctx.inject).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("digests", () => {
+    it("should deliver one combined message once maxMessages is reached", async () => {
+      const { ctx, getRegisteredMiddleware, getRegisteredA2AServer } = createMockContext({
+        routes: [
+          {
+            name: "alerts-digest",
+            sourceSession: "alerts",
+            targetSessions: ["ops"],
+            mode: "divert",
+            digest: { maxMessages: 3, header: "{{count}} alerts" },
+          },
+        ],
+      });
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
+
+      for (const message of ["disk full", "cpu high"]) {
+        expect(await mw.onIncoming!({ session: "alerts", message })).toBeNull();
+      }
+      expect(ctx.inject).not.toHaveBeenCalled();
+
+      await mw.onIncoming!({ session: "alerts", message: "memory low" });
+      const stats = async () => JSON.parse((await getRegisteredA2AServer().tools[0].handler()).content[0].text);
+      await vi.waitFor(async () => expect((await stats()).messages.routed).toBe(1));
+
+      expect(ctx.inject).toHaveBeenCalledTimes(1);
+      expect(ctx.inject).toHaveBeenCalledWith("ops", "3 alerts\n- disk full\n- cpu high\n- memory low");
+      expect((await stats()).digests).toEqual({ delivered: 1, messages: 3 });
+    });
+
+    it("should deliver after the window and keep a digest per source session", async () => {
+      const { ctx, getRegisteredMiddleware } = createMockContext({
+        routes: [{ sourceSession: "alerts-*", targetSessions: ["ops"], digest: { windowMs: 20 } }],
+      });
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
+
+      expect(await mw.onIncoming!({ session: "alerts-eu", message: "one" })).toBe("one");
+      await mw.onIncoming!({ session: "alerts-us", message: "two" });
+      await vi.waitFor(() => expect(ctx.inject).toHaveBeenCalledTimes(2));
+
+      expect(ctx.inject).toHaveBeenCalledWith("ops", "Digest from alerts-eu (1 messages)\n- one");
+      expect(ctx.inject).toHaveBeenCalledWith("ops", "Digest from alerts-us (1 messages)\n- two");
+    });
+
+    it("should apply transforms per message and the template to the whole digest", async () => {
+      const { ctx, getRegisteredMiddleware } = createMockContext({
+        routes: [
+          {
+            sourceSession: "alerts",
+            targetSessions: ["ops"],
+            transforms: [{ type: "truncate", maxLength: 5, suffix: "" }],
+            template: "To {{target}}:\n{{message}}",
+            digest: { maxMessages: 2, format: "* {{message}}", header: "" },
+          },
+        ],
+      });
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
+
+      await mw.onIncoming!({ session: "alerts", message: "disk is full" });
+      await mw.onIncoming!({ session: "alerts", message: "cpu is high" });
+      await vi.waitFor(() => expect(ctx.inject).toHaveBeenCalled());
+
+      expect(ctx.inject).toHaveBeenCalledWith("ops", "To ops:\n* disk \n* cpu i");
+    });
+
+    it("should flush pending digests on shutdown", async () => {
+      const { ctx, getRegisteredMiddleware } = createMockContext({
+        routes: [{ sourceSession: "alerts", targetSessions: ["ops"], digest: { windowMs: 3_600_000 } }],
+      });
+      await plugin.init(ctx);
+
+      await getRegisteredMiddleware()!.onIncoming!({ session: "alerts", message: "disk full" });
+      expect(ctx.inject).not.toHaveBeenCalled();
+      await plugin.shutdown();
+
+      expect(ctx.inject).toHaveBeenCalledWith("ops", "Digest from alerts (1 messages)\n- disk full");
+    });
+  });
+
+  describe("scatter-gather", () => {
+    const channel = { type: "discord", id: "ticket" };
+
+    function setup(
+      gather: Record<string, unknown> = {},
+      replies: Record<string, string> = {},
+      config: Record<string, unknown> = {},
+    ) {
+      const mock = createMockContext({
+        ...config,
+        routes: [
+          {
+            name: "ask",
+            sourceSession: "support",
+            targetSessions: ["billing", "engineering"],
+            mode: "scatter-gather",
+            gather,
+          },
+          ...((config.routes as unknown[]) ?? []),
+        ],
+      });
+      const send = vi.fn(async () => {});
+      mock.ctx.getChannelsForSession.mockImplementation((session: string) =>
+        session === "support" ? [{ channel, session, send }] : [],
+      );
+      // Sessions without a reply never finish their turn
+      mock.ctx.inject.mockImplementation((session: string) =>
+        replies[session] !== undefined ? Promise.resolve(replies[session]) : new Promise(() => {}),
+      );
+      const stats = async () => JSON.parse((await mock.getRegisteredA2AServer().tools[0].handler()).content[0].text);
+      return { ...mock, send, stats };
+    }
+
+    it("should ask every target and send their replies together to the original channel", async () => {
+      const { ctx, getRegisteredMiddleware, send, stats } = setup(
+        {},
+        { billing: "Refund issued.", engineering: "Bug fixed." },
+      );
+      await plugin.init(ctx);
+
+      expect(await getRegisteredMiddleware()!.onIncoming!({ session: "support", channel, message: "Status?" })).toBeNull();
+
+      await vi.waitFor(() => expect(send).toHaveBeenCalled());
+      expect(ctx.inject.mock.calls).toEqual([
+        ["billing", "Status?"],
+        ["engineering", "Status?"],
+      ]);
+      expect(send).toHaveBeenCalledWith("**billing**\nRefund issued.\n\n**engineering**\nBug fixed.");
+      await vi.waitFor(async () => expect((await stats()).gathers).toEqual({ completed: 1, timeouts: 0 }));
+    });
+
+    it("should send the first reply with the first merge", async () => {
+      const { ctx, getRegisteredMiddleware, send, stats } = setup({ merge: "first" }, { engineering: "Bug fixed." });
+      await plugin.init(ctx);
+      const inject = ctx.inject.getMockImplementation()!;
+      ctx.inject.mockImplementation(async (session: string, message: string) => {
+        if (session !== "billing") return inject(session, message);
+        await new Promise((r) => setTimeout(r, 20));
+        return "Refund issued.";
+      });
+
+      await getRegisteredMiddleware()!.onIncoming!({ session: "support", channel, message: "Status?" });
+
+      await vi.waitFor(() => expect(send).toHaveBeenCalledWith("Bug fixed."));
+      expect((await stats()).gathers.timeouts).toBe(0);
+    });
+
+    it("should leave out targets that do not reply in time", async () => {
+      const { ctx, getRegisteredMiddleware, send, stats } = setup({ timeoutMs: 20 }, { billing: "Refund issued." });
+      await plugin.init(ctx);
+
+      await getRegisteredMiddleware()!.onIncoming!({ session: "support", channel, message: "Status?" });
+
+      await vi.waitFor(() => expect(send).toHaveBeenCalledWith("**billing**\nRefund issued."));
+      expect(ctx.log.warn).toHaveBeenCalledWith(expect.stringContaining("No reply from engineering within 20ms"));
+      await vi.waitFor(async () => expect((await stats()).gathers).toEqual({ completed: 1, timeouts: 1 }));
+    });
+
+    it("should take each target's response to its own inject as the reply", async () => {
+      const { ctx, getRegisteredMiddleware, send } = setup();
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
+      // The first question takes longer, so its replies come back after those to the second
+      ctx.inject.mockImplementation(async (session: string, message: string) => {
+        await mw.onOutgoing!({ session, response: "unrelated chatter" });
+        await new Promise((r) => setTimeout(r, message === "First?" ? 30 : 5));
+        return `${session} on ${message}`;
+      });
+
+      await mw.onIncoming!({ session: "support", channel, message: "First?" });
+      await mw.onIncoming!({ session: "support", channel, message: "Second?" });
+
+      await vi.waitFor(() => expect(send).toHaveBeenCalledTimes(2));
+      expect(send.mock.calls).toEqual([
+        ["**billing**\nbilling on Second?\n\n**engineering**\nengineering on Second?"],
+        ["**billing**\nbilling on First?\n\n**engineering**\nengineering on First?"],
+      ]);
+    });
+
+    it("should leave out targets whose inject fails", async () => {
+      const { ctx, getRegisteredMiddleware, send, stats } = setup({ timeoutMs: 60_000 }, { billing: "Refund issued." });
+      await plugin.init(ctx);
+      const inject = ctx.inject.getMockImplementation()!;
+      ctx.inject.mockImplementation(async (session: string, message: string) => {
+        if (session === "engineering") throw new Error("inject failed");
+        return inject(session, message);
+      });
+
+      await getRegisteredMiddleware()!.onIncoming!({ session: "support", channel, message: "Status?" });
+
+      await vi.waitFor(() => expect(send).toHaveBeenCalledWith("**billing**\nRefund issued."));
+      const result = await stats();
+      expect(result.messages.errors).toBe(1);
+      expect(result.gathers.timeouts).toBe(0);
+    });
+
+    it("should not ask a target the same question twice within the dedup window", async () => {
+      const { ctx, getRegisteredMiddleware, send, stats } = setup(
+        {},
+        { billing: "Refund issued.", engineering: "Bug fixed." },
+        { dedup: { windowMs: 60_000 } },
+      );
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
+
+      await mw.onIncoming!({ session: "support", channel, message: "Status?" });
+      await vi.waitFor(() => expect(send).toHaveBeenCalledTimes(1));
+      await mw.onIncoming!({ session: "support", channel, message: "Status?" });
+
+      await vi.waitFor(() =>
+        expect(ctx.log.warn).toHaveBeenCalledWith(expect.stringContaining("got no replies; nothing to send")),
+      );
+      expect(ctx.inject).toHaveBeenCalledTimes(2);
+      expect(send).toHaveBeenCalledTimes(1);
+      expect((await stats()).messages.duplicatesSuppressed).toBe(2);
+    });
+
+    it("should hold each target to its session rate limit", async () => {
+      const { ctx, getRegisteredMiddleware, send, stats } = setup(
+        {},
+        { billing: "Refund issued.", engineering: "Bug fixed." },
+        { rateLimits: { sessions: { billing: { rate: 1, intervalMs: 60_000 } } } },
+      );
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
+
+      await mw.onIncoming!({ session: "support", channel, message: "First?" });
+      await vi.waitFor(() => expect(send).toHaveBeenCalledTimes(1));
+      await mw.onIncoming!({ session: "support", channel, message: "Second?" });
+
+      await vi.waitFor(() => expect(send).toHaveBeenCalledTimes(2));
+      expect(send).toHaveBeenLastCalledWith("**engineering**\nBug fixed.");
+      expect(ctx.inject.mock.calls.filter((call: unknown[]) => call[0] === "billing")).toHaveLength(1);
+      expect((await stats()).rateLimits.overflows).toEqual([{ limit: "session:billing", count: 1 }]);
+    });
+
+    it("should not ask targets once the message is past the hop limit", async () => {
+      const { ctx, getRegisteredMiddleware, send, stats } = setup(
+        {},
+        { billing: "Refund issued.", engineering: "Bug fixed." },
+        { loopDetection: { maxHops: 1 }, routes: [{ sourceSession: "front", targetSessions: ["support"] }] },
+      );
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
+      const inject = ctx.inject.getMockImplementation()!;
+      ctx.inject.mockImplementation(async (session: string, message: string) => {
+        if (session !== "support") return inject(session, message);
+        await mw.onIncoming!({ session, channel, message });
+        return "";
+      });
+
+      await mw.onIncoming!({ session: "front", message: "Status?" });
+
+      await vi.waitFor(() =>
+        expect(ctx.log.warn).toHaveBeenCalledWith(expect.stringContaining("got no replies; nothing to send")),
+      );
+      expect(ctx.log.warn).toHaveBeenCalledWith(expect.stringContaining("more than 1 hops"));
+      expect(ctx.inject.mock.calls).toEqual([["support", "Status?"]]);
+      expect(send).not.toHaveBeenCalled();
+      expect((await stats()).messages.loopsRejected).toBe(2);
+    });
+
+    it("should have the aggregator merge the replies", async () => {
+      const { ctx, getRegisteredMiddleware, send } = setup(
+        { merge: "aggregate", aggregator: "lead", prompt: "Merge for {{message}}:\n{{replies}}" },
+        { billing: "Refund issued.", engineering: "Bug fixed.", lead: "All sorted." },
+      );
+      await plugin.init(ctx);
+
+      await getRegisteredMiddleware()!.onIncoming!({ session: "support", channel, message: "Status?" });
+
+      await vi.waitFor(() => expect(send).toHaveBeenCalledWith("All sorted."));
+      expect(ctx.inject).toHaveBeenLastCalledWith(
+        "lead",
+        "Merge for Status?:\n**billing**\nRefund issued.\n\n**engineering**\nBug fixed.",
+      );
+    });
+
+    it("should send the replies as they are when the aggregator does not answer", async () => {
+      const { ctx, getRegisteredMiddleware, send, stats } = setup(
+        { merge: "aggregate", aggregator: "lead", timeoutMs: 20 },
+        { billing: "Refund issued.", engineering: "Bug fixed." },
+      );
+      await plugin.init(ctx);
+
+      await getRegisteredMiddleware()!.onIncoming!({ session: "support", channel, message: "Status?" });
+
+      await vi.waitFor(() => expect(send).toHaveBeenCalledWith("**billing**\nRefund issued.\n\n**engineering**\nBug fixed."));
+      expect(ctx.log.warn).toHaveBeenCalledWith(expect.stringContaining("No merged reply from lead"));
+      await vi.waitFor(async () => expect((await stats()).gathers.timeouts).toBe(1));
+    });
+
+    it("should finish pending scatter-gathers on shutdown", async () => {
+      const { ctx, getRegisteredMiddleware, send } = setup({ timeoutMs: 20 }, { billing: "Refund issued." });
+      await plugin.init(ctx);
+
+      await getRegisteredMiddleware()!.onIncoming!({ session: "support", channel, message: "Status?" });
+      await plugin.shutdown!();
+
+      expect(send).toHaveBeenCalledWith("**billing**\nRefund issued.");
+    });
+
+    it("should not send anything for a message without a channel", async () => {
+      const { ctx, getRegisteredMiddleware, send } = setup({}, { billing: "Refund issued.", engineering: "Bug fixed." });
+      await plugin.init(ctx);
+
+      await getRegisteredMiddleware()!.onIncoming!({ session: "support", message: "Status?" });
+
+      await vi.waitFor(() =>
+        expect(ctx.log.warn).toHaveBeenCalledWith(expect.stringContaining("has no channel to go to")),
+      );
+      expect(send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("strategies", () => {
+    it("should spread messages over a worker pool with round-robin", async () => {
+      const { ctx, getRegisteredMiddleware, getRegisteredA2AServer } = createMockContext({
+        routes: [{ name: "workers", sourceSession: "jobs", targetSessions: ["w1", "w2"], strategy: "round-robin" }],
+      });
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
+
+      for (const message of ["a", "b", "c"]) await mw.onIncoming!({ session: "jobs", message });
+
+      expect(ctx.inject.mock.calls).toEqual([
+        ["w1", "a"],
+        ["w2", "b"],
+        ["w1", "c"],
+      ]);
+      const stats = JSON.parse((await getRegisteredA2AServer().tools[0].handler()).content[0].text);
+      expect(stats.selections).toEqual([
+        { route: "route:workers", target: "w1", count: 2 },
+        { route: "route:workers", target: "w2", count: 1 },
+      ]);
+    });
+
+    it("should keep broadcasting to every target by default", async () => {
+      const { ctx, getRegisteredMiddleware, getRegisteredA2AServer } = createMockContext({
+        routes: [{ sourceSession: "jobs", targetSessions: ["w1", "w2"] }],
+      });
+      await plugin.init(ctx);
+
+      await getRegisteredMiddleware()!.onIncoming!({ session: "jobs", message: "a" });
+
+      expect(ctx.inject).toHaveBeenCalledTimes(2);
+      const stats = JSON.parse((await getRegisteredA2AServer().tools[0].handler()).content[0].text);
+      expect(stats.selections).toEqual([]);
+    });
+
+    it("should not pick a target the message already passed through", async () => {
+      const { ctx, getRegisteredMiddleware } = createMockContext({
+        routes: [
+          { sourceSession: "jobs", targetSessions: ["w1"] },
+          { sourceSession: "w1", targetSessions: ["jobs", "w2"], strategy: "round-robin" },
+        ],
+      });
+      ctx.inject.mockImplementation(async (session: string, message: string) => {
+        await getRegisteredMiddleware()!.onIncoming!({ session, message });
+      });
+      await plugin.init(ctx);
+
+      await getRegisteredMiddleware()!.onIncoming!({ session: "jobs", message: "a" });
+
+      expect(ctx.inject.mock.calls).toEqual([
+        ["w1", "a"],
+        ["w2", "a"],
+      ]);
+    });
+
+    it("should keep a channel's messages on one worker with affinity", async () => {
+      const workers = ["w1", "w2", "w3"];
+      const { ctx, getRegisteredMiddleware, getRegisteredA2AServer } = createMockContext({
+        routes: [
+          {
+            name: "workers",
+            sourceSession: "jobs",
+            targetSessions: workers,
+            strategy: "round-robin",
+            affinity: { key: "channelId" },
+          },
+        ],
+      });
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
+
+      for (const message of ["a", "b", "c"]) {
+        await mw.onIncoming!({ session: "jobs", channel: { type: "discord", id: "general" }, message });
+      }
+      await mw.onIncoming!({ session: "jobs", message: "no channel" });
+
+      const sticky = hashTarget("general", workers);
+      expect(ctx.inject.mock.calls).toEqual([
+        [sticky, "a"],
+        [sticky, "b"],
+        [sticky, "c"],
+        ["w1", "no channel"],
+      ]);
+      const stats = JSON.parse((await getRegisteredA2AServer().tools[0].handler()).content[0].text);
+      expect(stats.selections).toContainEqual({ route: "route:workers", target: sticky, count: sticky === "w1" ? 4 : 3 });
+    });
+  });
+
+  describe("delayed delivery", () => {
+    async function stats(server: any) {
+      const result = await server.tools[0].handler();
+      return JSON.parse(result.content[0].text);
+    }
+
+    it("should hold an injected message for the route's delay", async () => {
+      const { ctx, getRegisteredMiddleware, getRegisteredA2AServer } = createMockContext({
+        routes: [{ name: "later", sourceSession: "support", targetSessions: ["billing"], delayMs: 300 }],
+      });
+      await plugin.init(ctx);
+
+      expect(await getRegisteredMiddleware()!.onIncoming!({ session: "support", message: "hello" })).toBe("hello");
+      expect(ctx.inject).not.toHaveBeenCalled();
+      const stored = JSON.parse(readFileSync(join(ctx.getPluginDir(), "delayed-deliveries.json"), "utf8"));
+      expect(stored).toMatchObject([{ direction: "incoming", route: "later", target: "billing", payload: "hello" }]);
+
+      await vi.waitFor(async () => expect((await stats(getRegisteredA2AServer())).messages.routed).toBe(1), {
+        timeout: 2000,
+      });
+      expect(ctx.inject).toHaveBeenCalledWith("billing", "hello");
+      expect((await stats(getRegisteredA2AServer())).messages.delayed).toBe(1);
+      await vi.waitFor(() =>
+        expect(JSON.parse(readFileSync(join(ctx.getPluginDir(), "delayed-deliveries.json"), "utf8"))).toEqual([]),
+      );
+    });
+
+    it("should hold responses and chunk them when they are sent", async () => {
+      const send = vi.fn(async () => {});
+      const { ctx, getRegisteredMiddleware } = createMockContext({
+        outgoingRoutes: [{ sourceSession: "support", delayMs: 300 }],
+        chunking: { limits: { sms: 20 } },
+      });
+      ctx.getChannelsForSession.mockReturnValue([{ channel: { type: "sms", id: "1" }, send }]);
+      await plugin.init(ctx);
+
+      await getRegisteredMiddleware()!.onOutgoing!({ session: "support", response: "a".repeat(30) });
+      expect(send).not.toHaveBeenCalled();
+
+      await vi.waitFor(() => expect(send).toHaveBeenCalledTimes(2), { timeout: 2000 });
+    });
+
+    it("should refuse to cancel a held delivery that is already being delivered", async () => {
+      let release!: () => void;
+      const { ctx, getRegisteredMiddleware, getRegisteredA2AServer } = createMockContext({
+        routes: [{ sourceSession: "support", targetSessions: ["billing"], delayMs: 10 }],
+      });
+      ctx.inject.mockImplementationOnce(() => new Promise<void>((resolve) => (release = resolve)));
+      const base = await initWithUIServer(ctx);
+      const headers = { "X-WOPR-Router": "1" };
+
+      await getRegisteredMiddleware()!.onIncoming!({ session: "support", message: "hello" });
+      await vi.waitFor(() => expect(ctx.inject).toHaveBeenCalledOnce());
+      const { entries } = await (await fetch(`${base}/api/webmcp/delayed`, { headers })).json();
+
+      const single = await fetch(`${base}/api/webmcp/delayed/${entries[0].id}`, { method: "DELETE", headers });
+      expect(single.status).toBe(409);
+      const all = await fetch(`${base}/api/webmcp/delayed`, { method: "DELETE", headers });
+      expect(await all.json()).toEqual({ cancelled: 0 });
+
+      release();
+      await vi.waitFor(async () => expect((await stats(getRegisteredA2AServer())).messages.routed).toBe(1));
+    });
+
+    it("should hold messages outside a schedule window until it opens", async () => {
+      const { ctx, getRegisteredMiddleware } = createMockContext({
+        routes: [
+          {
+            sourceSession: "support",
+            targetSessions: ["billing"],
+            // Only open at 09:00 on 1 January; the clock is set to the day before
+            schedule: { timezone: "UTC", cron: "0 9 1 1 *", holdOutside: true },
+          },
+        ],
+      });
+      vi.useFakeTimers({ toFake: ["Date"], now: new Date("2026-12-31T12:00:00Z") });
+      try {
+        await plugin.init(ctx);
+        await getRegisteredMiddleware()!.onIncoming!({ session: "support", message: "hello" });
+      } finally {
+        vi.useRealTimers();
+      }
+
+      expect(ctx.inject).not.toHaveBeenCalled();
+      const stored = JSON.parse(readFileSync(join(ctx.getPluginDir(), "delayed-deliveries.json"), "utf8"));
+      expect(stored[0].dueAt).toBe("2027-01-01T09:00:00.000Z");
+    });
+
+    it("should deliver entries stored before a restart that have fallen due", async () => {
+      const { ctx } = createMockContext({ routes: [] });
+      writeFileSync(
+        join(ctx.getPluginDir(), "delayed-deliveries.json"),
+        JSON.stringify([
+          {
+            id: "held-1",
+            direction: "incoming",
+            source: "support",
+            target: "billing",
+            payload: "from before",
+            queuedAt: "2026-03-04T12:00:00.000Z",
+            dueAt: "2026-03-04T13:00:00.000Z",
+          },
+        ]),
+      );
+      await plugin.init(ctx);
+
+      await vi.waitFor(() => expect(ctx.inject).toHaveBeenCalledWith("billing", "from before"));
+    });
+
+    it("should keep entries that are not yet due across shutdown", async () => {
+      const { ctx, getRegisteredMiddleware } = createMockContext({
+        routes: [{ sourceSession: "support", targetSessions: ["billing"], delayMs: 3_600_000 }],
+      });
+      await plugin.init(ctx);
+      await getRegisteredMiddleware()!.onIncoming!({ session: "support", message: "hello" });
+      await plugin.shutdown();
+
+      const stored = JSON.parse(readFileSync(join(ctx.getPluginDir(), "delayed-deliveries.json"), "utf8"));
+      expect(stored).toHaveLength(1);
+      expect(ctx.inject).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("error paths in fan-out", () => {
+    it("should log error and increment errors when inject throws", async () => {
+      const { ctx, getRegisteredMiddleware } = createMockContext({
+        routes: [{ sourceSession: "session-a", targetSessions: ["session-b"] }],
+      });
+      ctx.inject.mockRejectedValueOnce(new Error("inject failed"));
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
+
+      const result = await mw.onIncoming!({
+        session: "session-a",
+        message: "hello",
+      });
+
+      expect(result).toBe("hello");
+      expect(ctx.log.error).toHaveBeenCalledWith(expect.stringContaining("Failed to route"));
+    });
+
+    it("should log error and increment errors when channel send throws", async () => {
+      const failSend = vi.fn(async () => { throw new Error("send failed"); });
+      const { ctx, getRegisteredMiddleware } = createMockContext({
+        outgoingRoutes: [{ sourceSession: "session-a" }],
+      });
+      ctx.getChannelsForSession.mockReturnValue([
+        { channel: { type: "discord", id: "ch1" }, send: failSend },
+      ]);
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
+
+      const result = await mw.onOutgoing!({
+        session: "session-a",
+        response: "reply",
+      });
+
+      expect(result).toBe("reply");
+      expect(ctx.log.error).toHaveBeenCalledWith(expect.stringContaining("Failed to send"));
+    });
+  });
+
+  describe("retries", () => {
+    it("should retry a failed inject and count the recovery", async () => {
+      const { ctx, getRegisteredMiddleware, getRegisteredA2AServer } = createMockContext({
+        routes: [{ sourceSession: "session-a", targetSessions: ["session-b"], retry: { maxAttempts: 3, baseDelayMs: 1 } }],
+      });
+      ctx.inject.mockRejectedValueOnce(new Error("busy"));
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
+
+      await mw.onIncoming!({ session: "session-a", message: "hello" });
+
+      expect(ctx.inject).toHaveBeenCalledTimes(2);
+      expect(ctx.log.warn).toHaveBeenCalledWith(expect.stringContaining("retrying"));
+      expect(ctx.log.error).not.toHaveBeenCalled();
+      const result = await getRegisteredA2AServer().tools[0].handler();
+      const stats = JSON.parse(result.content[0].text);
+      expect(stats.retries).toEqual({ attempts: 1, succeeded: 1, exhausted: 0 });
+      expect(stats.messages.routed).toBe(1);
+    });
+
+    it("should use the config-wide policy for outgoing sends and count exhaustion", async () => {
+      const failSend = vi.fn(async () => {
+        throw new Error("send failed");
+      });
+      const { ctx, getRegisteredMiddleware, getRegisteredA2AServer } = createMockContext({
+        retry: { maxAttempts: 2, baseDelayMs: 1 },
+        outgoingRoutes: [{ sourceSession: "session-a" }],
+      });
+      ctx.getChannelsForSession.mockReturnValue([{ channel: { type: "discord", id: "ch1" }, send: failSend }]);
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
+
+      await mw.onOutgoing!({ session: "session-a", response: "reply" });
+
+      expect(failSend).toHaveBeenCalledTimes(2);
+      const result = await getRegisteredA2AServer().tools[0].handler();
+      const stats = JSON.parse(result.content[0].text);
+      expect(stats.retries).toEqual({ attempts: 1, succeeded: 0, exhausted: 1 });
+      expect(stats.messages.errors).toBe(1);
+    });
+  });
+
+  describe("loop detection", () => {
+    // Injected messages come back through the middleware, as they do in the host
+    function feedBack(ctx: any, getRegisteredMiddleware: () => any) {
+      ctx.inject.mockImplementation(async (session: string, message: string) => {
+        await getRegisteredMiddleware()!.onIncoming!({ session, message });
+        return "";
+      });
+    }
+
+    it("should stop a ping-pong between two sessions", async () => {
+      const { ctx, getRegisteredMiddleware } = createMockContext({
+        routes: [
+          { sourceSession: "session-a", targetSessions: ["session-b"] },
+          { sourceSession: "session-b", targetSessions: ["session-a"] },
+        ],
+      });
+      feedBack(ctx, getRegisteredMiddleware);
+      await plugin.init(ctx);
+
+      await getRegisteredMiddleware()!.onIncoming!({ session: "session-a", message: "hello" });
+
+      expect(ctx.inject.mock.calls).toEqual([["session-b", "hello"]]);
+      expect(ctx.log.warn).toHaveBeenCalledWith(
+        expect.stringContaining("routing loop (session-a -> session-b -> session-a)"),
+      );
+    });
+
+    it("should stop a three-session cycle", async () => {
+      const { ctx, getRegisteredMiddleware } = createMockContext({
+        routes: [
+          { sourceSession: "a", targetSessions: ["b"] },
+          { sourceSession: "b", targetSessions: ["c"] },
+          { sourceSession: "c", targetSessions: ["a"] },
+        ],
+      });
+      feedBack(ctx, getRegisteredMiddleware);
+      await plugin.init(ctx);
+
+      await getRegisteredMiddleware()!.onIncoming!({ session: "a", message: "hello" });
+
+      expect(ctx.inject.mock.calls.map((call: unknown[]) => call[0])).toEqual(["b", "c"]);
+    });
+
+    it("should stop a chain at the hop limit", async () => {
+      const { ctx, getRegisteredMiddleware, getRegisteredA2AServer } = createMockContext({
+        loopDetection: { maxHops: 2 },
+        routes: [
+          { sourceSession: "a", targetSessions: ["b"] },
+          { sourceSession: "b", targetSessions: ["c"] },
+          { sourceSession: "c", targetSessions: ["d"] },
+        ],
+      });
+      feedBack(ctx, getRegisteredMiddleware);
+      await plugin.init(ctx);
+
+      await getRegisteredMiddleware()!.onIncoming!({ session: "a", message: "hello" });
+
+      expect(ctx.inject.mock.calls.map((call: unknown[]) => call[0])).toEqual(["b", "c"]);
+      expect(ctx.log.warn).toHaveBeenCalledWith(expect.stringContaining("more than 2 hops"));
+      const result = await getRegisteredA2AServer().tools[0].handler();
+      expect(JSON.parse(result.content[0].text).messages.loopsRejected).toBe(1);
+    });
+
+    it("should track templated messages as they were injected", async () => {
+      const { ctx, getRegisteredMiddleware } = createMockContext({
+        routes: [
+          { sourceSession: "a", targetSessions: ["b"], template: "[from {{session}}] {{message}}" },
+          { sourceSession: "b", targetSessions: ["a"] },
+        ],
+      });
+      feedBack(ctx, getRegisteredMiddleware);
+      await plugin.init(ctx);
+
+      await getRegisteredMiddleware()!.onIncoming!({ session: "a", message: "hello" });
+
+      expect(ctx.inject).toHaveBeenCalledTimes(1);
+    });
+
+    it("should warn about cycles in the route config on init", async () => {
+      const { ctx } = createMockContext({
+        routes: [
+          { sourceSession: "a", targetSessions: ["b"] },
+          { sourceSession: "b", targetSessions: ["a"] },
+        ],
+      });
+      await plugin.init(ctx);
+      expect(ctx.log.warn).toHaveBeenCalledWith(expect.stringContaining("Router config warning: routes form a cycle"));
+    });
+  });
+
+  describe("dedup", () => {
+    async function stats(server: any) {
+      const result = await server.tools[0].handler();
+      return JSON.parse(result.content[0].text);
+    }
+
+    it("should suppress a redelivered message within the window", async () => {
+      const { ctx, getRegisteredMiddleware, getRegisteredA2AServer } = createMockContext({
+        dedup: { windowMs: 60_000 },
+        routes: [{ sourceSession: "session-a", targetSessions: ["session-b"] }],
+      });
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
+
+      await mw.onIncoming!({ session: "session-a", message: "hello" });
+      await mw.onIncoming!({ session: "session-a", message: "hello " });
+      await mw.onIncoming!({ session: "session-a", message: "something else" });
+
+      expect(ctx.inject).toHaveBeenCalledTimes(2);
+      expect((await stats(getRegisteredA2AServer())).messages.duplicatesSuppressed).toBe(1);
+    });
+
+    it("should inject once when overlapping routes share a target", async () => {
+      const { ctx, getRegisteredMiddleware } = createMockContext({
+        dedup: { windowMs: 60_000 },
+        routes: [
+          { sourceSession: "session-a", targetSessions: ["session-b"] },
+          { sourceSession: "session-*", targetSessions: ["session-b", "session-c"] },
+        ],
+      });
+      await plugin.init(ctx);
+      await getRegisteredMiddleware()!.onIncoming!({ session: "session-a", message: "hello" });
+
+      expect(ctx.inject.mock.calls.map((call: unknown[]) => call[0])).toEqual(["session-b", "session-c"]);
+    });
+
+    it("should compare adapter message ids instead of text", async () => {
+      const { ctx, getRegisteredMiddleware } = createMockContext({
+        dedup: { windowMs: 60_000 },
+        routes: [{ sourceSession: "session-a", targetSessions: ["session-b"] }],
+      });
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
+
+      await mw.onIncoming!({ session: "session-a", message: "ok", messageId: "1" } as any);
+      await mw.onIncoming!({ session: "session-a", message: "ok", messageId: "2" } as any);
+      await mw.onIncoming!({ session: "session-a", message: "ok", messageId: "1" } as any);
+
+      expect(ctx.inject).toHaveBeenCalledTimes(2);
+    });
+
+    it("should let a message through again after its delivery failed", async () => {
+      const { ctx, getRegisteredMiddleware } = createMockContext({
+        dedup: { windowMs: 60_000 },
+        routes: [{ sourceSession: "session-a", targetSessions: ["session-b"] }],
+      });
+      ctx.inject.mockRejectedValueOnce(new Error("inject failed"));
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
+
+      await mw.onIncoming!({ session: "session-a", message: "hello" });
+      await mw.onIncoming!({ session: "session-a", message: "hello" });
+
+      expect(ctx.inject).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not suppress anything without a window", async () => {
+      const { ctx, getRegisteredMiddleware } = createMockContext({
+        routes: [{ sourceSession: "session-a", targetSessions: ["session-b"] }],
+      });
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
+
+      await mw.onIncoming!({ session: "session-a", message: "hello" });
+      await mw.onIncoming!({ session: "session-a", message: "hello" });
+
+      expect(ctx.inject).toHaveBeenCalledTimes(2);
+    });
+
+    it("should send a response to each channel once across overlapping routes", async () => {
+      const send = vi.fn(async () => {});
+      const { ctx, getRegisteredMiddleware } = createMockContext({
+        dedup: { windowMs: 60_000 },
+        outgoingRoutes: [{ sourceSession: "session-a" }, { channelType: "discord" }],
+      });
+      ctx.getChannelsForSession.mockReturnValue([{ channel: { type: "discord", id: "ch1" }, send }]);
+      await plugin.init(ctx);
+
+      await getRegisteredMiddleware()!.onOutgoing!({ session: "session-a", response: "reply" });
+
+      expect(send).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("timeouts", () => {
+    async function stats(server: any) {
+      const result = await server.tools[0].handler();
+      return JSON.parse(result.content[0].text);
+    }
+
+    it("should give up on a hung inject and count it as a timeout", async () => {
+      let release!: () => void;
+      const { ctx, getRegisteredMiddleware, getRegisteredA2AServer } = createMockContext({
+        timeoutMs: 20,
+        routes: [{ sourceSession: "session-a", targetSessions: ["session-b"] }],
+      });
+      ctx.inject.mockImplementationOnce(() => new Promise<void>((resolve) => (release = resolve)));
+      await plugin.init(ctx);
+
+      const result = await getRegisteredMiddleware()!.onIncoming!({ session: "session-a", message: "hello" });
+      release();
+
+      expect(result).toBe("hello");
+      expect(ctx.log.error).toHaveBeenCalledWith(expect.stringContaining("Delivery timed out after 20ms"));
+      const body = await stats(getRegisteredA2AServer());
+      expect(body.messages.timeouts).toBe(1);
+      expect(body.messages.errors).toBe(0);
+      const tool = getRegisteredA2AServer().tools.find((t: any) => t.name === "router.deadLetters.list");
+      const letters = JSON.parse((await tool.handler({})).content[0].text);
+      expect(letters.entries[0].error).toContain("DeliveryTimeoutError");
+    });
+
+    it("should let a route override the timeout and retry timed-out attempts", async () => {
+      let release!: () => void;
+      const { ctx, getRegisteredMiddleware, getRegisteredA2AServer } = createMockContext({
+        timeoutMs: 60_000,
+        routes: [
+          {
+            sourceSession: "session-a",
+            targetSessions: ["session-b"],
+            timeoutMs: 20,
+            retry: { maxAttempts: 2, baseDelayMs: 1, retryOn: ["ETIMEDOUT"] },
+          },
+        ],
+      });
+      ctx.inject.mockImplementationOnce(() => new Promise<void>((resolve) => (release = resolve)));
+      await plugin.init(ctx);
+
+      await getRegisteredMiddleware()!.onIncoming!({ session: "session-a", message: "hello" });
+      release();
+
+      expect(ctx.inject).toHaveBeenCalledTimes(2);
+      const body = await stats(getRegisteredA2AServer());
+      expect(body.retries).toEqual({ attempts: 1, succeeded: 1, exhausted: 0 });
+      expect(body.messages.timeouts).toBe(0);
+      expect(body.messages.routed).toBe(1);
+    });
+
+    it("should not retry a timed-out inject unless retryOn asks for it", async () => {
+      const { ctx, getRegisteredMiddleware, getRegisteredA2AServer } = createMockContext({
+        timeoutMs: 20,
+        retry: { maxAttempts: 3, baseDelayMs: 1 },
+        routes: [{ sourceSession: "session-a", targetSessions: ["session-b"] }],
+      });
+      ctx.inject.mockImplementationOnce(() => new Promise<void>(() => {}));
+      await plugin.init(ctx);
+
+      await getRegisteredMiddleware()!.onIncoming!({ session: "session-a", message: "hello" });
+
+      // The first inject may still run in the session, so it is not sent again
+      expect(ctx.inject).toHaveBeenCalledOnce();
+      expect((await stats(getRegisteredA2AServer())).messages.timeouts).toBe(1);
+    });
+
+    it("should time out hung channel sends", async () => {
+      let release!: () => void;
+      const send = vi.fn(() => new Promise<void>((resolve) => (release = resolve)));
+      const { ctx, getRegisteredMiddleware, getRegisteredA2AServer } = createMockContext({
+        outgoingRoutes: [{ sourceSession: "session-a", timeoutMs: 20 }],
+      });
+      ctx.getChannelsForSession.mockReturnValue([{ channel: { type: "discord", id: "ch1" }, send }]);
+      await plugin.init(ctx);
+
+      await getRegisteredMiddleware()!.onOutgoing!({ session: "session-a", response: "reply" });
+      release();
+
+      expect((await stats(getRegisteredA2AServer())).messages.timeouts).toBe(1);
+    });
+  });
+
+  describe("rate limits", () => {
+    async function stats(server: any) {
+      const result = await server.tools[0].handler();
+      return JSON.parse(result.content[0].text);
+    }
+
+    it("should drop messages beyond a route's limit", async () => {
+      const { ctx, getRegisteredMiddleware, getRegisteredA2AServer } = createMockContext({
+        routes: [
+          {
+            name: "mirror",
+            sourceSession: "session-a",
+            targetSessions: ["session-b", "session-c"],
+            rateLimit: { rate: 2, intervalMs: 60_000 },
+          },
+        ],
+      });
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
+
+      for (let i = 0; i < 3; i++) await mw.onIncoming!({ session: "session-a", message: `m${i}` });
+
+      // The route limit counts messages, not deliveries
+      expect(ctx.inject).toHaveBeenCalledTimes(4);
+      const body = await stats(getRegisteredA2AServer());
+      expect(body.rateLimits.dropped).toBe(1);
+      expect(body.rateLimits.overflows).toEqual([{ limit: "route:mirror", count: 1 }]);
+    });
+
+    it("should share a target session's limit across routes", async () => {
+      const { ctx, getRegisteredMiddleware, getRegisteredA2AServer } = createMockContext({
+        routes: [
+          { sourceSession: "session-a", targetSessions: ["billing"] },
+          { sourceSession: "session-c", targetSessions: ["billing", "audit"] },
+        ],
+        rateLimits: { sessions: { "bill*": { rate: 1, intervalMs: 60_000 } } },
+      });
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
+
+      await mw.onIncoming!({ session: "session-a", message: "one" });
+      await mw.onIncoming!({ session: "session-c", message: "two" });
+
+      expect(ctx.inject.mock.calls).toEqual([
+        ["billing", "one"],
+        ["audit", "two"],
+      ]);
+      expect((await stats(getRegisteredA2AServer())).rateLimits.overflows).toEqual([
+        { limit: "session:billing", count: 1 },
+      ]);
+    });
+
+    it("should limit each outgoing channel separately", async () => {
+      const sendA = vi.fn(async () => {});
+      const sendB = vi.fn(async () => {});
+      const { ctx, getRegisteredMiddleware } = createMockContext({
+        outgoingRoutes: [{ sourceSession: "session-a" }],
+        rateLimits: { channels: { "discord:*": { rate: 1, intervalMs: 60_000 } } },
+      });
+      ctx.getChannelsForSession.mockReturnValue([
+        { channel: { type: "discord", id: "ch1" }, send: sendA },
+        { channel: { type: "discord", id: "ch2" }, send: sendB },
+      ]);
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
+
+      await mw.onOutgoing!({ session: "session-a", response: "one" });
+      await mw.onOutgoing!({ session: "session-a", response: "two" });
+
+      expect(sendA).toHaveBeenCalledTimes(1);
+      expect(sendB).toHaveBeenCalledTimes(1);
+    });
+
+    it("should drop queued deliveries on shutdown", async () => {
+      const { ctx, getRegisteredMiddleware, getRegisteredA2AServer } = createMockContext({
+        routes: [
+          {
+            sourceSession: "session-a",
+            targetSessions: ["session-b"],
+            background: true,
+            rateLimit: { rate: 1, intervalMs: 60_000, overflow: "queue" },
+          },
+        ],
+      });
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
+      const server = getRegisteredA2AServer();
+
+      await mw.onIncoming!({ session: "session-a", message: "one" });
+      await mw.onIncoming!({ session: "session-a", message: "two" });
+      const body = await stats(server);
+      await plugin.shutdown();
+
+      expect(ctx.inject).toHaveBeenCalledTimes(1);
+      expect(body.rateLimits.dropped).toBe(0);
+    });
+  });
+
+  describe("circuit breaker", () => {
+    async function deadLetters(server: any) {
+      const tool = server.tools.find((t: any) => t.name === "router.deadLetters.list");
+      const result = await tool.handler({});
+      return JSON.parse(result.content[0].text);
+    }
+
+    it("should stop trying a failing session and keep later messages as dead letters", async () => {
+      const { ctx, getRegisteredMiddleware, getRegisteredA2AServer } = createMockContext({
+        circuitBreaker: { failureThreshold: 2, cooldownMs: 60_000 },
+        routes: [{ sourceSession: "session-a", targetSessions: ["session-b"] }],
+      });
+      ctx.inject.mockRejectedValue(new Error("inject failed"));
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
+
+      for (let i = 0; i < 3; i++) await mw.onIncoming!({ session: "session-a", message: `m${i}` });
+
+      expect(ctx.inject).toHaveBeenCalledTimes(2);
+      expect(ctx.log.warn).toHaveBeenCalledWith(expect.stringContaining("Circuit open for session:session-b"));
+      const letters = await deadLetters(getRegisteredA2AServer());
+      expect(letters.count).toBe(3);
+      expect(letters.entries[0]).toMatchObject({ target: "session-b", attempts: 0, preview: "m2" });
+      expect(letters.entries[0].error).toBe("circuit open for session:session-b");
+    });
+
+    it("should route to the fallback session while the circuit is open", async () => {
+      const { ctx, getRegisteredMiddleware } = createMockContext({
+        circuitBreaker: { failureThreshold: 1, cooldownMs: 60_000, fallbacks: { "session-*": "ops" } },
+        routes: [{ sourceSession: "session-a", targetSessions: ["session-b"], template: "{{target}}: {{message}}" }],
+      });
+      ctx.inject.mockRejectedValueOnce(new Error("inject failed"));
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
+
+      await mw.onIncoming!({ session: "session-a", message: "one" });
+      await mw.onIncoming!({ session: "session-a", message: "two" });
+
+      expect(ctx.inject.mock.calls).toEqual([
+        ["session-b", "session-b: one"],
+        ["ops", "ops: two"],
+      ]);
+    });
+
+    it("should let a trial through after the cooldown and close on success", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      try {
+        const { ctx, getRegisteredMiddleware } = createMockContext({
+          circuitBreaker: { failureThreshold: 1, cooldownMs: 1000 },
+          routes: [{ sourceSession: "session-a", targetSessions: ["session-b"] }],
+        });
+        ctx.inject.mockRejectedValueOnce(new Error("inject failed"));
+        await plugin.init(ctx);
+        const mw = getRegisteredMiddleware()!;
+
+        await mw.onIncoming!({ session: "session-a", message: "one" });
+        await mw.onIncoming!({ session: "session-a", message: "two" });
+        vi.advanceTimersByTime(1000);
+        await mw.onIncoming!({ session: "session-a", message: "three" });
+        await mw.onIncoming!({ session: "session-a", message: "four" });
+
+        expect(ctx.inject.mock.calls.map((call: unknown[]) => call[1])).toEqual(["one", "three", "four"]);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("should open per channel and keep responses as dead letters", async () => {
+      const failSend = vi.fn(async () => {
+        throw new Error("send failed");
+      });
+      const okSend = vi.fn(async () => {});
+      const { ctx, getRegisteredMiddleware, getRegisteredA2AServer } = createMockContext({
+        circuitBreaker: { failureThreshold: 1 },
+        outgoingRoutes: [{ sourceSession: "session-a" }],
+      });
+      ctx.getChannelsForSession.mockReturnValue([
+        { channel: { type: "discord", id: "ch1" }, send: failSend },
+        { channel: { type: "discord", id: "ch2" }, send: okSend },
+      ]);
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
+
+      await mw.onOutgoing!({ session: "session-a", response: "one" });
+      await mw.onOutgoing!({ session: "session-a", response: "two" });
+
+      expect(failSend).toHaveBeenCalledTimes(1);
+      expect(okSend).toHaveBeenCalledTimes(2);
+      const letters = await deadLetters(getRegisteredA2AServer());
+      expect(letters.entries[0]).toMatchObject({ target: "discord:ch1", error: "circuit open for channel:discord:ch1" });
+    });
+
+    it("should always attempt deliveries when disabled", async () => {
+      const { ctx, getRegisteredMiddleware } = createMockContext({
+        circuitBreaker: { enabled: false, failureThreshold: 1 },
+        routes: [{ sourceSession: "session-a", targetSessions: ["session-b"] }],
+      });
+      ctx.inject.mockRejectedValue(new Error("inject failed"));
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
+
+      for (let i = 0; i < 3; i++) await mw.onIncoming!({ session: "session-a", message: `m${i}` });
+
+      expect(ctx.inject).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe("failover", () => {
+    async function stats(server: any) {
+      const result = await server.tools[0].handler();
+      return JSON.parse(result.content[0].text);
+    }
+
+    it("should deliver to the first fallback that accepts when the primary fails", async () => {
+      const { ctx, getRegisteredMiddleware, getRegisteredA2AServer } = createMockContext({
+        routes: [{ sourceSession: "session-a", primaryTarget: "session-b", fallbackTargets: ["session-c", "session-d"] }],
+      });
+      ctx.inject.mockRejectedValueOnce(new Error("inject failed"));
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
+
+      await mw.onIncoming!({ session: "session-a", message: "hello" });
+
+      expect(ctx.inject.mock.calls).toEqual([
+        ["session-b", "hello"],
+        ["session-c", "hello"],
+      ]);
+      expect(ctx.log.warn).toHaveBeenCalledWith(expect.stringContaining("Failing over from session-b to session-c"));
+      const result = await stats(getRegisteredA2AServer());
+      expect(result.messages.failovers).toBe(1);
+      expect(result.messages.errors).toBe(0);
+      expect(result.routeHits).toEqual([{ route: "session-a->session-c", count: 1 }]);
+    });
+
+    it("should count one error and keep one dead letter when every target fails", async () => {
+      const { ctx, getRegisteredMiddleware, getRegisteredA2AServer } = createMockContext({
+        routes: [{ sourceSession: "session-a", primaryTarget: "session-b", fallbackTargets: ["session-c"] }],
+      });
+      ctx.inject.mockRejectedValue(new Error("inject failed"));
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
+
+      await mw.onIncoming!({ session: "session-a", message: "hello" });
+
+      expect(ctx.inject).toHaveBeenCalledTimes(2);
+      const server = getRegisteredA2AServer();
+      const result = await stats(server);
+      expect(result.messages.errors).toBe(1);
+      expect(result.messages.failovers).toBe(0);
+      const letters = JSON.parse(
+        (await server.tools.find((t: any) => t.name === "router.deadLetters.list").handler({})).content[0].text,
+      );
+      expect(letters.count).toBe(1);
+      expect(letters.entries[0]).toMatchObject({ target: "session-c", preview: "hello" });
+    });
+
+    it("should skip a primary whose circuit is open", async () => {
+      const { ctx, getRegisteredMiddleware, getRegisteredA2AServer } = createMockContext({
+        circuitBreaker: { failureThreshold: 1, cooldownMs: 60_000 },
+        routes: [{ sourceSession: "session-a", primaryTarget: "session-b", fallbackTargets: ["session-c"] }],
+      });
+      ctx.inject.mockRejectedValueOnce(new Error("inject failed"));
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
+
+      await mw.onIncoming!({ session: "session-a", message: "one" });
+      await mw.onIncoming!({ session: "session-a", message: "two" });
+
+      expect(ctx.inject.mock.calls).toEqual([
+        ["session-b", "one"],
+        ["session-c", "one"],
+        ["session-c", "two"],
+      ]);
+      expect(ctx.log.warn).toHaveBeenCalledWith(
+        expect.stringContaining("Circuit open for session:session-b; failing over to session-c"),
+      );
+      expect((await stats(getRegisteredA2AServer())).messages.failovers).toBe(2);
+    });
+
+    it("should not fail over to the message's source session", async () => {
+      const { ctx, getRegisteredMiddleware } = createMockContext({
+        routes: [{ sourceSession: "session-a", primaryTarget: "session-b", fallbackTargets: ["session-a"] }],
+      });
+      ctx.inject.mockRejectedValue(new Error("inject failed"));
+      await plugin.init(ctx);
+      const mw = getRegisteredMiddleware()!;
+
+      await mw.onIncoming!({ session: "session-a", message: "hello" });
+
+      expect(ctx.inject.mock.calls).toEqual([["session-b", "hello"]]);
+    });
+  });
+
+  describe("dead letters", () => {
+    function tool(server: any, name: string) {
+      return server.tools.find((t: any) => t.name === name);
+    }
+
+    async function call(server: any, name: string, args: Record<string, unknown> = {}) {
+      const result = await tool(server, name).handler(args);
+      return { ...result, body: JSON.parse(result.content[0].text) };
+    }
+
+    it("should store a failed inject and persist it under the plugin dir", async () => {
+      const { ctx, getRegisteredMiddleware, getRegisteredA2AServer } = createMockContext({
+        routes: [{ name: "escalate", sourceSession: "session-a", targetSessions: ["session-b"] }],
+      });
+      ctx.inject.mockRejectedValueOnce(new Error("inject failed"));
+      await plugin.init(ctx);
+      await getRegisteredMiddleware()!.onIncoming!({ session: "session-a", message: "hello" });
+
+      const { body } = await call(getRegisteredA2AServer(), "router.deadLetters.list");
+      expect(body.count).toBe(1);
+      expect(body.entries[0]).toMatchObject({
+        direction: "incoming",
+        route: "escalate",
+        source: "session-a",
+        target: "session-b",
+        attempts: 1,
+        preview: "hello",
+      });
+      expect(body.entries[0].error).toContain("inject failed");
+
+      const stored = JSON.parse(readFileSync(join(ctx.getPluginDir(), "dead-letters.json"), "utf8"));
+      expect(stored).toHaveLength(1);
+      expect(stored[0].payload).toBe("hello");
+    });
+
+    it("should store each failed chunk with its channel", async () => {
+      const failSend = vi.fn(async () => {
+        throw new Error("send failed");
+      });
+      const { ctx, getRegisteredMiddleware, getRegisteredA2AServer } = createMockContext({
+        outgoingRoutes: [{ sourceSession: "session-a" }],
+      });
+      ctx.getChannelsForSession.mockReturnValue([{ channel: { type: "discord", id: "ch1" }, send: failSend }]);
+      await plugin.init(ctx);
+      await getRegisteredMiddleware()!.onOutgoing!({ session: "session-a", response: "reply" });
+
+      const server = getRegisteredA2AServer();
+      const { body: list } = await call(server, "router.deadLetters.list");
+      const { body } = await call(server, "router.deadLetters.get", { id: list.entries[0].id });
+      expect(body).toMatchObject({
+        direction: "outgoing",
+        target: "discord:ch1",
+        channel: { type: "discord", id: "ch1" },
+        payload: "reply",
+      });
+    });
+
+    it("should not store anything when disabled", async () => {
+      const { ctx, getRegisteredMiddleware, getRegisteredA2AServer } = createMockContext({
+        deadLetters: { enabled: false },
+        routes: [{ sourceSession: "session-a", targetSessions: ["session-b"] }],
+      });
+      ctx.inject.mockRejectedValueOnce(new Error("inject failed"));
+      await plugin.init(ctx);
+      await getRegisteredMiddleware()!.onIncoming!({ session: "session-a", message: "hello" });
+
+      const { body } = await call(getRegisteredA2AServer(), "router.deadLetters.list");
+      expect(body.count).toBe(0);
+    });
+
+    it("should remove a dead letter once its replay succeeds", async () => {
+      const { ctx, getRegisteredMiddleware, getRegisteredA2AServer } = createMockContext({
+        routes: [{ sourceSession: "session-a", targetSessions: ["session-b"] }],
+      });
+      ctx.inject.mockRejectedValueOnce(new Error("inject failed"));
+      await plugin.init(ctx);
+      await getRegisteredMiddleware()!.onIncoming!({ session: "session-a", message: "hello" });
+      const server = getRegisteredA2AServer();
+      const { body: list } = await call(server, "router.deadLetters.list");
+
+      const result = await call(server, "router.deadLetters.replay", { id: list.entries[0].id });
+
+      expect(result.body).toEqual({ replayed: true });
+      expect(result.isError).toBeUndefined();
+      expect(ctx.inject).toHaveBeenLastCalledWith("session-b", "hello");
+      expect((await call(server, "router.deadLetters.list")).body.count).toBe(0);
+    });
+
+    it("should keep a dead letter and record the new error when its replay fails", async () => {
+      const { ctx, getRegisteredMiddleware, getRegisteredA2AServer } = createMockContext({
+        routes: [{ sourceSession: "session-a", targetSessions: ["session-b"] }],
+      });
+      ctx.inject.mockRejectedValueOnce(new Error("inject failed"));
+      await plugin.init(ctx);
+      await getRegisteredMiddleware()!.onIncoming!({ session: "session-a", message: "hello" });
+      const server = getRegisteredA2AServer();
+      const { body: list } = await call(server, "router.deadLetters.list");
+      const id = list.entries[0].id;
+      ctx.inject.mockRejectedValueOnce(new Error("still down"));
+
+      const result = await call(server, "router.deadLetters.replay", { id });
+
+      expect(result.isError).toBe(true);
+      expect(result.body.replayed).toBe(false);
+      const { body } = await call(server, "router.deadLetters.get", { id });
+      expect(body.replays).toBe(1);
+      expect(body.error).toContain("still down");
+    });
+
+    it("should report unknown ids as errors", async () => {
+      const { ctx, getRegisteredA2AServer } = createMockContext();
+      await plugin.init(ctx);
+      const server = getRegisteredA2AServer();
+      expect((await call(server, "router.deadLetters.get", { id: "missing" })).isError).toBe(true);
+      expect((await call(server, "router.deadLetters.replay", { id: "missing" })).isError).toBe(true);
+    });
+
+    it("should purge dead letters and reload the rest on the next init", async () => {
+      const { ctx, getRegisteredMiddleware, getRegisteredA2AServer } = createMockContext({
+        routes: [{ sourceSession: "session-a", targetSessions: ["session-b", "session-c", "session-d"] }],
+      });
+      ctx.inject.mockRejectedValue(new Error("inject failed"));
+      await plugin.init(ctx);
+      await getRegisteredMiddleware()!.onIncoming!({ session: "session-a", message: "hello" });
+      const server = getRegisteredA2AServer();
+      const { body: list } = await call(server, "router.deadLetters.list");
+      expect(list.count).toBe(3);
+
+      expect((await call(server, "router.deadLetters.purge", { id: list.entries[0].id })).body).toEqual({ purged: 1 });
+      await plugin.shutdown();
+      await plugin.init(ctx);
+      expect((await call(getRegisteredA2AServer(), "router.deadLetters.list")).body.count).toBe(2);
+
+      expect((await call(getRegisteredA2AServer(), "router.deadLetters.purge")).body).toEqual({ purged: 2 });
+    });
+  });
+
+  describe("A2A router.stats tool", () => {
+    it("should register A2A server with router.stats tool", async () => {
+      const { ctx, getRegisteredA2AServer } = createMockContext();
+      await plugin.init(ctx);
+      const server = getRegisteredA2AServer();
+      expect(server).not.toBeNull();
+      expect(server.name).toBe("router");
+      expect(server.tools.map((t: any) => t.name)).toEqual([
+        "router.stats",
+        "router.deadLetters.list",
+        "router.deadLetters.get",
+        "router.deadLetters.replay",
+        "router.deadLetters.purge",
+      ]);
     });
 
     it("should return stats JSON from router.stats handler", async () => {
@@ -0,0 +1,76 @@
+import { existsSync, mkdirSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createJsonFileStore } from "../src/json-store.js";
+
+describe("createJsonFileStore", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "json-store-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should load nothing without a file", async () => {
+    const store = createJsonFileStore<number>("entries.json");
+    expect(await store.load(dir)).toEqual([]);
+    await store.close();
+  });
+
+  it("should end up with the latest snapshot and no temporary file", async () => {
+    const store = createJsonFileStore<number>("entries.json");
+    await store.load(join(dir, "nested"));
+    void store.save([1]);
+    void store.save([1, 2]);
+    await store.save([1, 2, 3]);
+    await store.close();
+
+    expect(JSON.parse(readFileSync(join(dir, "nested", "entries.json"), "utf8"))).toEqual([1, 2, 3]);
+    expect(existsSync(join(dir, "nested", "entries.json.tmp"))).toBe(false);
+    expect(await createJsonFileStore<number>("entries.json").load(join(dir, "nested"))).toEqual([1, 2, 3]);
+  });
+
+  it("should not write before load or after close", async () => {
+    const store = createJsonFileStore<number>("entries.json");
+    await store.save([1]);
+    await store.load(dir);
+    await store.close();
+    await store.save([2]);
+    expect(existsSync(join(dir, "entries.json"))).toBe(false);
+  });
+
+  it("should move a corrupt file aside so saving does not overwrite it", async () => {
+    writeFileSync(join(dir, "entries.json"), "[1, 2");
+    const store = createJsonFileStore<number>("entries.json");
+    await expect(store.load(dir)).rejects.toThrow(/could not be loaded and was moved to .*entries\.json\.corrupt-\d+/);
+    await store.save([3]);
+    await store.close();
+
+    const aside = readdirSync(dir).find((name) => name.startsWith("entries.json.corrupt-"))!;
+    expect(readFileSync(join(dir, aside), "utf8")).toBe("[1, 2");
+    expect(JSON.parse(readFileSync(join(dir, "entries.json"), "utf8"))).toEqual([3]);
+  });
+
+  it("should not save after a file that cannot be read", async () => {
+    // A directory in place of the file cannot be read
+    mkdirSync(join(dir, "entries.json"));
+    const store = createJsonFileStore<number>("entries.json");
+    await expect(store.load(dir)).rejects.toThrow("EISDIR");
+    rmSync(join(dir, "entries.json"), { recursive: true });
+    writeFileSync(join(dir, "entries.json"), "[1]");
+    await store.save([2]);
+    await store.close();
+    expect(readFileSync(join(dir, "entries.json"), "utf8")).toBe("[1]");
+  });
+
+  it("should throw on a file that does not hold an array", async () => {
+    writeFileSync(join(dir, "entries.json"), "{}");
+    await expect(createJsonFileStore<number>("entries.json").load(dir)).rejects.toThrow("does not contain an array");
+    writeFileSync(join(dir, "entries.json"), "not json");
+    await expect(createJsonFileStore<number>("entries.json").load(dir)).rejects.toThrow("is not valid JSON");
+  });
+});
@@ -0,0 +1,108 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { findRouteCycles, recordInjection, resetLoopTracking, takeInjectionPath } from "../src/loops.js";
+
+describe("injection paths", () => {
+  afterEach(() => {
+    resetLoopTracking();
+  });
+
+  it("should start a new path for messages the router did not inject", () => {
+    expect(takeInjectionPath("a", "hello")).toEqual(["a"]);
+  });
+
+  it("should return the recorded path once", () => {
+    recordInjection(["a", "b"], "hello", 1000, 0);
+    expect(takeInjectionPath("b", "hello", 1)).toEqual(["a", "b"]);
+    expect(takeInjectionPath("b", "hello", 2)).toEqual(["b"]);
+  });
+
+  it("should match on session and text", () => {
+    recordInjection(["a", "b"], "hello", 1000, 0);
+    expect(takeInjectionPath("c", "hello", 1)).toEqual(["c"]);
+    expect(takeInjectionPath("b", "other", 1)).toEqual(["b"]);
+  });
+
+  it("should keep concurrent injections of the same text apart", () => {
+    recordInjection(["a", "c"], "hello", 1000, 0);
+    recordInjection(["b", "c"], "hello", 1000, 0);
+    expect(takeInjectionPath("c", "hello", 1)).toEqual(["a", "c"]);
+    expect(takeInjectionPath("c", "hello", 1)).toEqual(["b", "c"]);
+  });
+
+  it("should forget injections after the ttl", () => {
+    recordInjection(["a", "b"], "hello", 1000, 0);
+    expect(takeInjectionPath("b", "hello", 1000)).toEqual(["b"]);
+  });
+});
+
+describe("findRouteCycles", () => {
+  it("should find a ping-pong between two sessions", () => {
+    expect(
+      findRouteCycles([
+        { sourceSession: "a", targetSessions: ["b"] },
+        { sourceSession: "b", targetSessions: ["a"] },
+      ]),
+    ).toEqual([["a", "b", "a"]]);
+  });
+
+  it("should find longer cycles once", () => {
+    expect(
+      findRouteCycles([
+        { sourceSession: "a", targetSessions: ["b"] },
+        { sourceSession: "b", targetSessions: ["c"] },
+        { sourceSession: "c", targetSessions: ["a"] },
+      ]),
+    ).toEqual([["a", "b", "c", "a"]]);
+  });
+
+  it("should follow source patterns and routes without a source", () => {
+    expect(
+      findRouteCycles([
+        { sourceSession: "support-*", targetSessions: ["audit"] },
+        { targetSessions: ["support-eu"] },
+      ]),
+    ).toEqual([["audit", "support-eu", "audit"]]);
+  });
+
+  it("should include outside-window targets and skip drop routes", () => {
+    expect(
+      findRouteCycles([
+        { sourceSession: "a", targetSessions: [], schedule: { start: "09:00", end: "17:00", outsideTargets: ["b"] } },
+        { sourceSession: "b", targetSessions: ["a"], mode: "drop" },
+      ]),
+    ).toEqual([]);
+    expect(
+      findRouteCycles([
+        { sourceSession: "a", targetSessions: [], schedule: { start: "09:00", end: "17:00", outsideTargets: ["b"] } },
+        { sourceSession: "b", targetSessions: ["a"] },
+      ]),
+    ).toEqual([["a", "b", "a"]]);
+  });
+
+  it("should follow primary and fallback targets", () => {
+    expect(
+      findRouteCycles([
+        { sourceSession: "a", primaryTarget: "b", fallbackTargets: ["c"] },
+        { sourceSession: "c", targetSessions: ["a"] },
+      ]),
+    ).toEqual([["a", "c", "a"]]);
+  });
+
+  it("should follow a scatter-gather route to its aggregator", () => {
+    expect(
+      findRouteCycles([
+        { sourceSession: "a", targetSessions: ["b"], mode: "scatter-gather", gather: { merge: "aggregate", aggregator: "c" } },
+        { sourceSession: "c", targetSessions: ["a"] },
+      ]),
+    ).toEqual([["a", "c", "a"]]);
+  });
+
+  it("should report nothing for a chain", () => {
+    expect(
+      findRouteCycles([
+        { sourceSession: "a", targetSessions: ["b"] },
+        { sourceSession: "b", targetSessions: ["c"] },
+      ]),
+    ).toEqual([]);
+  });
+});
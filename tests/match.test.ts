@@ -0,0 +1,210 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  isPattern,
+  matchesContent,
+  matchesExpression,
+  matchesFields,
+  matchesPattern,
+  orderRoutes,
+  selectRoutes,
+  validatePattern,
+} from "../src/match.js";
+
+describe("isPattern", () => {
+  it("should treat plain strings as literals", () => {
+    expect(isPattern("support")).toBe(false);
+  });
+
+  it("should detect globs", () => {
+    expect(isPattern("support-*")).toBe(true);
+    expect(isPattern("ch?")).toBe(true);
+  });
+
+  it("should detect regex literals", () => {
+    expect(isPattern("/^alerts-(prod|stage)$/")).toBe(true);
+    expect(isPattern("/abc/i")).toBe(true);
+  });
+});
+
+describe("matchesPattern", () => {
+  it("should match literals exactly", () => {
+    expect(matchesPattern("support", "support")).toBe(true);
+    expect(matchesPattern("support", "support-eu-1")).toBe(false);
+  });
+
+  it("should match globs against the whole value", () => {
+    expect(matchesPattern("support-*", "support-eu-1")).toBe(true);
+    expect(matchesPattern("support-*", "support-us-2")).toBe(true);
+    expect(matchesPattern("support-*", "billing")).toBe(false);
+    expect(matchesPattern("*-eu-*", "support-eu-1")).toBe(true);
+    expect(matchesPattern("ch?", "ch1")).toBe(true);
+    expect(matchesPattern("ch?", "ch10")).toBe(false);
+  });
+
+  it("should escape regex metacharacters in globs", () => {
+    expect(matchesPattern("a.b*", "a.bc")).toBe(true);
+    expect(matchesPattern("a.b*", "axbc")).toBe(false);
+  });
+
+  it("should match regex literals", () => {
+    expect(matchesPattern("/^alerts-(prod|stage)$/", "alerts-prod")).toBe(true);
+    expect(matchesPattern("/^alerts-(prod|stage)$/", "alerts-dev")).toBe(false);
+  });
+
+  it("should honour regex flags", () => {
+    expect(matchesPattern("/^ALERTS$/i", "alerts")).toBe(true);
+    expect(matchesPattern("/^ALERTS$/", "alerts")).toBe(false);
+  });
+
+  it("should give stable results for global regexes", () => {
+    expect(matchesPattern("/a/g", "a")).toBe(true);
+    expect(matchesPattern("/a/g", "a")).toBe(true);
+  });
+
+  it("should never match an invalid regex", () => {
+    expect(matchesPattern("/(unclosed/", "(unclosed")).toBe(false);
+  });
+
+  it("should not match an undefined value", () => {
+    expect(matchesPattern("*", undefined)).toBe(false);
+  });
+});
+
+describe("validatePattern", () => {
+  it("should accept literals, globs and valid regexes", () => {
+    expect(validatePattern("support")).toBeNull();
+    expect(validatePattern("support-*")).toBeNull();
+    expect(validatePattern("/^a|b$/")).toBeNull();
+  });
+
+  it("should reject invalid regexes", () => {
+    expect(validatePattern("/(unclosed/")).toMatch(/./);
+  });
+
+  it("should reject invalid regex flags", () => {
+    expect(validatePattern("/abc/zz")).toMatch(/./);
+  });
+});
+
+describe("matchesContent", () => {
+  it("should match everything when no conditions are set", () => {
+    expect(matchesContent({}, "anything")).toBe(true);
+  });
+
+  it("should match substrings case-insensitively by default", () => {
+    expect(matchesContent({ contains: "refund" }, "I want a REFUND please")).toBe(true);
+    expect(matchesContent({ contains: "refund" }, "hello")).toBe(false);
+  });
+
+  it("should respect caseSensitive", () => {
+    expect(matchesContent({ contains: "Refund", caseSensitive: true }, "refund")).toBe(false);
+    expect(matchesContent({ contains: "Refund", caseSensitive: true }, "Refund")).toBe(true);
+  });
+
+  it("should match any keyword as a whole word", () => {
+    const content = { keywords: ["invoice", "billing"] };
+    expect(matchesContent(content, "Where is my invoice?")).toBe(true);
+    expect(matchesContent(content, "billing question")).toBe(true);
+    expect(matchesContent(content, "invoices are late")).toBe(false);
+  });
+
+  it("should match bare and literal regexes", () => {
+    expect(matchesContent({ regex: "outage|down" }, "the site is down")).toBe(true);
+    expect(matchesContent({ regex: "/^SEV[12]/" }, "sev1 incident")).toBe(false);
+    expect(matchesContent({ regex: "/^SEV[12]/i" }, "sev1 incident")).toBe(true);
+  });
+
+  it("should check message length ranges", () => {
+    expect(matchesContent({ minLength: 3 }, "hi")).toBe(false);
+    expect(matchesContent({ maxLength: 3 }, "hello")).toBe(false);
+    expect(matchesContent({ minLength: 2, maxLength: 5 }, "hello")).toBe(true);
+  });
+
+  it("should match command prefixes followed by whitespace or end of message", () => {
+    const content = { commandPrefix: "!billing" };
+    expect(matchesContent(content, "!billing")).toBe(true);
+    expect(matchesContent(content, "  !billing why was I charged")).toBe(true);
+    expect(matchesContent(content, "!billingx")).toBe(false);
+    expect(matchesContent(content, "please !billing")).toBe(false);
+  });
+
+  it("should require all conditions to hold", () => {
+    const content = { commandPrefix: "!ops", contains: "prod" };
+    expect(matchesContent(content, "!ops restart prod")).toBe(true);
+    expect(matchesContent(content, "!ops restart stage")).toBe(false);
+  });
+});
+
+describe("matchesFields", () => {
+  const input = { session: "support-1", channel: { type: "discord", id: "42" }, message: "help" };
+
+  it("should match when every set field matches", () => {
+    expect(matchesFields({ sourceSession: "support-*", channelType: "discord" }, input)).toBe(true);
+  });
+
+  it("should fail when any set field does not match", () => {
+    expect(matchesFields({ sourceSession: "support-*", channelId: "43" }, input)).toBe(false);
+    expect(matchesFields({ content: { contains: "refund" } }, input)).toBe(false);
+  });
+});
+
+describe("matchesExpression", () => {
+  const discordOrSlackNot42 = {
+    all: [{ any: [{ channelType: "discord" }, { channelType: "slack" }] }, { not: { channelId: "42" } }],
+  };
+  const on = (type: string, id: string) => ({ session: "s", channel: { type, id }, message: "m" });
+
+  it("should evaluate any / all / not trees", () => {
+    expect(matchesExpression(discordOrSlackNot42, on("discord", "1"))).toBe(true);
+    expect(matchesExpression(discordOrSlackNot42, on("slack", "7"))).toBe(true);
+    expect(matchesExpression(discordOrSlackNot42, on("discord", "42"))).toBe(false);
+    expect(matchesExpression(discordOrSlackNot42, on("irc", "1"))).toBe(false);
+  });
+
+  it("should treat empty all as true and empty any as false", () => {
+    expect(matchesExpression({ all: [] }, on("x", "1"))).toBe(true);
+    expect(matchesExpression({ any: [] }, on("x", "1"))).toBe(false);
+  });
+
+  it("should evaluate field predicates as leaves", () => {
+    expect(matchesExpression({ channelType: "disc*" }, on("discord", "1"))).toBe(true);
+  });
+});
+
+describe("orderRoutes", () => {
+  it("should sort by descending priority and keep config order for ties", () => {
+    const routes = [{ name: "a" }, { name: "b", priority: 10 }, { name: "c", priority: -1 }, { name: "d", priority: 10 }];
+    expect(orderRoutes(routes).map((r) => r.name)).toEqual(["b", "d", "a", "c"]);
+  });
+});
+
+describe("selectRoutes", () => {
+  const always = () => true;
+
+  it("should return every matching route in priority order", () => {
+    const routes = [{ id: 1 }, { id: 2, priority: 5 }];
+    expect(selectRoutes(routes, always).map((r) => r.id)).toEqual([2, 1]);
+  });
+
+  it("should stop after the first matching final route", () => {
+    const routes = [{ id: 1 }, { id: 2, priority: 5, final: true }, { id: 3, priority: 1 }];
+    expect(selectRoutes(routes, always).map((r) => r.id)).toEqual([2]);
+  });
+
+  it("should not stop on a final route that does not match", () => {
+    const routes = [{ id: 1, final: true }, { id: 2 }];
+    expect(selectRoutes(routes, (r) => r.id !== 1).map((r) => r.id)).toEqual([2]);
+  });
+
+  it("should run fallback routes only when nothing else matched", () => {
+    const routes = [{ id: 1 }, { id: 2, fallback: true }];
+    expect(selectRoutes(routes, always).map((r) => r.id)).toEqual([1]);
+    expect(selectRoutes(routes, (r) => r.id === 2).map((r) => r.id)).toEqual([2]);
+  });
+
+  it("should not evaluate routes after a final match", () => {
+    const matches = vi.fn(() => true);
+    selectRoutes([{ id: 1, final: true }, { id: 2 }, { id: 3, fallback: true }], matches);
+    expect(matches).toHaveBeenCalledTimes(1);
+  });
+});
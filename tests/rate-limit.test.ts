@@ -0,0 +1,91 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { acquireToken, resetRateLimits, resolveLimit, validateRateLimit } from "../src/rate-limit.js";
+
+describe("acquireToken", () => {
+  afterEach(() => {
+    resetRateLimits();
+    vi.useRealTimers();
+  });
+
+  it("should allow a burst up to the bucket capacity, then drop", async () => {
+    const limit = { rate: 2, intervalMs: 60_000 };
+    expect(await acquireToken("k", limit)).toBe("allowed");
+    expect(await acquireToken("k", limit)).toBe("allowed");
+    expect(await acquireToken("k", limit)).toBe("dropped");
+  });
+
+  it("should use burst as the capacity", async () => {
+    const limit = { rate: 1, intervalMs: 60_000, burst: 3 };
+    const results = [];
+    for (let i = 0; i < 4; i++) results.push(await acquireToken("k", limit));
+    expect(results).toEqual(["allowed", "allowed", "allowed", "dropped"]);
+  });
+
+  it("should refill tokens over time", async () => {
+    vi.useFakeTimers();
+    const limit = { rate: 1, intervalMs: 1000 };
+    expect(await acquireToken("k", limit)).toBe("allowed");
+    expect(await acquireToken("k", limit)).toBe("dropped");
+    vi.advanceTimersByTime(1000);
+    expect(await acquireToken("k", limit)).toBe("allowed");
+  });
+
+  it("should keep separate buckets per key", async () => {
+    const limit = { rate: 1, intervalMs: 60_000 };
+    expect(await acquireToken("a", limit)).toBe("allowed");
+    expect(await acquireToken("b", limit)).toBe("allowed");
+    expect(await acquireToken("a", limit)).toBe("dropped");
+  });
+
+  it("should let a sampled fraction of the overflow through", async () => {
+    const limit = { rate: 1, intervalMs: 60_000, overflow: "sample" as const, sampleRate: 0.5 };
+    expect(await acquireToken("k", limit)).toBe("allowed");
+    expect(await acquireToken("k", limit, () => 0.2)).toBe("sampled");
+    expect(await acquireToken("k", limit, () => 0.7)).toBe("dropped");
+  });
+
+  it("should queue overflow in order until tokens are refilled", async () => {
+    vi.useFakeTimers();
+    const limit = { rate: 1, intervalMs: 1000, overflow: "queue" as const };
+    expect(await acquireToken("k", limit)).toBe("allowed");
+    const order: string[] = [];
+    const first = acquireToken("k", limit).then((r) => order.push(`first ${r}`));
+    const second = acquireToken("k", limit).then((r) => order.push(`second ${r}`));
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(order).toEqual(["first queued"]);
+    await vi.advanceTimersByTimeAsync(1000);
+    await Promise.all([first, second]);
+    expect(order).toEqual(["first queued", "second queued"]);
+  });
+
+  it("should drop overflow beyond maxQueue", async () => {
+    const limit = { rate: 1, intervalMs: 60_000, overflow: "queue" as const, maxQueue: 1 };
+    expect(await acquireToken("k", limit)).toBe("allowed");
+    const queued = acquireToken("k", limit);
+    expect(await acquireToken("k", limit)).toBe("dropped");
+    resetRateLimits();
+    expect(await queued).toBe("dropped");
+  });
+});
+
+describe("resolveLimit", () => {
+  it("should return the first limit whose pattern matches", () => {
+    const limits = { "discord:*": { rate: 1 }, "*": { rate: 5 } };
+    expect(resolveLimit(limits, "discord:123")?.pattern).toBe("discord:*");
+    expect(resolveLimit(limits, "slack:1")?.limit.rate).toBe(5);
+    expect(resolveLimit({ billing: { rate: 1 } }, "support")).toBeUndefined();
+    expect(resolveLimit(undefined, "support")).toBeUndefined();
+  });
+});
+
+describe("validateRateLimit", () => {
+  it("should accept a valid limit", () => {
+    expect(validateRateLimit({ rate: 5, intervalMs: 60_000, burst: 10, overflow: "queue", maxQueue: 20 })).toEqual([]);
+  });
+
+  it("should report each invalid field", () => {
+    const problems = validateRateLimit({ rate: -1, intervalMs: 0, burst: 0.5, maxQueue: 0 } as any);
+    expect(problems).toHaveLength(4);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi } from "vitest";
+import { isRetryable, retryDelay, validateRetryPolicy, withRetry } from "../src/retry.js";
+
+describe("retryDelay", () => {
+  it("should double the delay on each retry", () => {
+    const policy = { baseDelayMs: 100, jitter: 0 };
+    expect(retryDelay(policy, 1)).toBe(100);
+    expect(retryDelay(policy, 2)).toBe(200);
+    expect(retryDelay(policy, 3)).toBe(400);
+  });
+
+  it("should cap the delay at maxDelayMs", () => {
+    expect(retryDelay({ baseDelayMs: 100, maxDelayMs: 250, jitter: 0 }, 5)).toBe(250);
+  });
+
+  it("should spread the delay by the jitter fraction", () => {
+    const policy = { baseDelayMs: 100, jitter: 0.5 };
+    expect(retryDelay(policy, 1, () => 0)).toBe(50);
+    expect(retryDelay(policy, 1, () => 0.5)).toBe(100);
+    expect(retryDelay(policy, 1, () => 1)).toBe(150);
+  });
+});
+
+describe("isRetryable", () => {
+  it("should retry every error without retryOn", () => {
+    expect(isRetryable({}, new Error("anything"))).toBe(true);
+  });
+
+  it("should match retryOn against the message, name and code", () => {
+    const timeout = Object.assign(new Error("socket hang up"), { code: "ECONNRESET" });
+    expect(isRetryable({ retryOn: ["ECONN*"] }, timeout)).toBe(true);
+    expect(isRetryable({ retryOn: ["/hang up/"] }, timeout)).toBe(true);
+    expect(isRetryable({ retryOn: ["Error"] }, timeout)).toBe(true);
+    expect(isRetryable({ retryOn: ["ETIMEDOUT"] }, timeout)).toBe(false);
+  });
+
+  it("should match non-Error values by their string form", () => {
+    expect(isRetryable({ retryOn: ["busy"] }, "busy")).toBe(true);
+  });
+});
+
+describe("withRetry", () => {
+  it("should not retry without a policy", async () => {
+    const fn = vi.fn(async () => {
+      throw new Error("fail");
+    });
+    await expect(withRetry(fn, undefined)).rejects.toThrow("fail");
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it("should retry until the call succeeds", async () => {
+    const fn = vi.fn().mockRejectedValueOnce(new Error("a")).mockRejectedValueOnce(new Error("b")).mockResolvedValue("ok");
+    const onRetry = vi.fn();
+    const result = await withRetry(fn, { maxAttempts: 5, baseDelayMs: 1, jitter: 0 }, onRetry);
+    expect(result).toBe("ok");
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(onRetry).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenNthCalledWith(2, 2, expect.any(Error), 2);
+  });
+
+  it("should rethrow the last error once attempts are used up", async () => {
+    let calls = 0;
+    const fn = async () => {
+      calls++;
+      throw new Error(`fail ${calls}`);
+    };
+    await expect(withRetry(fn, { maxAttempts: 3, baseDelayMs: 1, jitter: 0 })).rejects.toThrow("fail 3");
+    expect(calls).toBe(3);
+  });
+
+  it("should stop at the first error that is not retryable", async () => {
+    const fn = vi.fn(async () => {
+      throw new Error("forbidden");
+    });
+    await expect(withRetry(fn, { maxAttempts: 3, baseDelayMs: 1, retryOn: ["timeout"] })).rejects.toThrow("forbidden");
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it("should stop at an error the caller rules out", async () => {
+    const fn = vi.fn(async () => {
+      throw new Error("busy");
+    });
+    const retryable = vi.fn((err: unknown) => !String(err).includes("busy"));
+    await expect(withRetry(fn, { maxAttempts: 3, baseDelayMs: 1 }, undefined, retryable)).rejects.toThrow("busy");
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(retryable).toHaveBeenCalledOnce();
+  });
+});
+
+describe("validateRetryPolicy", () => {
+  it("should accept a valid policy", () => {
+    expect(validateRetryPolicy({ maxAttempts: 3, baseDelayMs: 100, maxDelayMs: 1000, jitter: 0.1 })).toEqual([]);
+  });
+
+  it("should report each invalid field", () => {
+    const problems = validateRetryPolicy({ maxAttempts: 1.5, maxDelayMs: -5, jitter: -0.1 });
+    expect(problems).toHaveLength(3);
+  });
+});
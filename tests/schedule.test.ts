@@ -0,0 +1,159 @@
+import { describe, it, expect } from "vitest";
+import { isScheduleActive, nextWindowStart, resolveScheduledTargets, routeTargets, validateSchedule } from "../src/schedule.js";
+
+// 2026-03-04 is a Wednesday
+const wednesdayNoonUtc = new Date("2026-03-04T12:00:00Z");
+const wednesdayLateUtc = new Date("2026-03-04T22:30:00Z");
+const saturdayNoonUtc = new Date("2026-03-07T12:00:00Z");
+
+describe("isScheduleActive", () => {
+  it("should be active when no conditions are set", () => {
+    expect(isScheduleActive({}, wednesdayNoonUtc)).toBe(true);
+  });
+
+  it("should check business hours in the given timezone", () => {
+    const schedule = { timezone: "UTC", start: "09:00", end: "17:00" };
+    expect(isScheduleActive(schedule, wednesdayNoonUtc)).toBe(true);
+    expect(isScheduleActive(schedule, wednesdayLateUtc)).toBe(false);
+  });
+
+  it("should evaluate the window in the configured timezone", () => {
+    // 12:00 UTC is 21:00 in Tokyo
+    const schedule = { timezone: "Asia/Tokyo", start: "09:00", end: "17:00" };
+    expect(isScheduleActive(schedule, wednesdayNoonUtc)).toBe(false);
+    expect(isScheduleActive({ ...schedule, start: "20:00", end: "22:00" }, wednesdayNoonUtc)).toBe(true);
+  });
+
+  it("should treat the end as exclusive", () => {
+    const schedule = { timezone: "UTC", start: "09:00", end: "12:00" };
+    expect(isScheduleActive(schedule, wednesdayNoonUtc)).toBe(false);
+  });
+
+  it("should wrap windows past midnight", () => {
+    const schedule = { timezone: "UTC", start: "22:00", end: "06:00" };
+    expect(isScheduleActive(schedule, wednesdayLateUtc)).toBe(true);
+    expect(isScheduleActive(schedule, wednesdayNoonUtc)).toBe(false);
+  });
+
+  it("should check weekdays", () => {
+    const schedule = { timezone: "UTC", days: ["mon", "tue", "wed", "thu", "fri"] as const };
+    expect(isScheduleActive({ ...schedule, days: [...schedule.days] }, wednesdayNoonUtc)).toBe(true);
+    expect(isScheduleActive({ ...schedule, days: [...schedule.days] }, saturdayNoonUtc)).toBe(false);
+  });
+
+  it("should evaluate cron windows", () => {
+    const weekdayWorkHours = { timezone: "UTC", cron: "* 9-16 * * 1-5" };
+    expect(isScheduleActive(weekdayWorkHours, wednesdayNoonUtc)).toBe(true);
+    expect(isScheduleActive(weekdayWorkHours, saturdayNoonUtc)).toBe(false);
+    expect(isScheduleActive(weekdayWorkHours, wednesdayLateUtc)).toBe(false);
+  });
+
+  it("should support cron steps and lists", () => {
+    expect(isScheduleActive({ timezone: "UTC", cron: "*/15 12 * * *" }, wednesdayNoonUtc)).toBe(true);
+    expect(isScheduleActive({ timezone: "UTC", cron: "5,10 12 * * *" }, wednesdayNoonUtc)).toBe(false);
+  });
+
+  it("should treat day-of-week 7 as Sunday", () => {
+    const sunday = new Date("2026-03-08T12:00:00Z");
+    expect(isScheduleActive({ timezone: "UTC", cron: "* * * * 7" }, sunday)).toBe(true);
+  });
+
+  it("should never be active with an invalid timezone", () => {
+    expect(isScheduleActive({ timezone: "Mars/Olympus" }, wednesdayNoonUtc)).toBe(false);
+  });
+});
+
+describe("resolveScheduledTargets", () => {
+  const route = {
+    targetSessions: ["day-shift"],
+    schedule: { timezone: "UTC", start: "09:00", end: "17:00", outsideTargets: ["oncall"] },
+  };
+
+  it("should use targetSessions inside the window", () => {
+    expect(resolveScheduledTargets(route, wednesdayNoonUtc)).toEqual(["day-shift"]);
+  });
+
+  it("should use outsideTargets outside the window", () => {
+    expect(resolveScheduledTargets(route, wednesdayLateUtc)).toEqual(["oncall"]);
+  });
+
+  it("should use targetSessions for unscheduled routes", () => {
+    expect(resolveScheduledTargets({ targetSessions: ["a"] }, wednesdayLateUtc)).toEqual(["a"]);
+  });
+
+  it("should keep targetSessions outside the window when messages are held", () => {
+    const held = { targetSessions: ["day-shift"], schedule: { timezone: "UTC", start: "09:00", end: "17:00", holdOutside: true } };
+    expect(resolveScheduledTargets(held, wednesdayLateUtc)).toEqual(["day-shift"]);
+  });
+
+  it("should use the primary target in place of targetSessions", () => {
+    const route = { primaryTarget: "day-shift", schedule: { timezone: "UTC", start: "09:00", end: "17:00", outsideTargets: ["oncall"] } };
+    expect(resolveScheduledTargets(route, wednesdayNoonUtc)).toEqual(["day-shift"]);
+    expect(resolveScheduledTargets(route, wednesdayLateUtc)).toEqual(["oncall"]);
+  });
+});
+
+describe("routeTargets", () => {
+  it("should prefer primaryTarget and otherwise use targetSessions", () => {
+    expect(routeTargets({ primaryTarget: "a", fallbackTargets: ["b"] })).toEqual(["a"]);
+    expect(routeTargets({ targetSessions: ["a", "b"] })).toEqual(["a", "b"]);
+    expect(routeTargets({})).toEqual([]);
+  });
+});
+
+describe("nextWindowStart", () => {
+  const businessHours = { timezone: "UTC", days: ["mon", "tue", "wed", "thu", "fri"] as never[], start: "09:00", end: "17:00" };
+
+  it("should return now when the window is open", () => {
+    expect(nextWindowStart(businessHours, wednesdayNoonUtc)).toBe(wednesdayNoonUtc);
+  });
+
+  it("should find the start of the next window", () => {
+    expect(nextWindowStart(businessHours, wednesdayLateUtc)?.toISOString()).toBe("2026-03-05T09:00:00.000Z");
+    expect(nextWindowStart(businessHours, saturdayNoonUtc)?.toISOString()).toBe("2026-03-09T09:00:00.000Z");
+  });
+
+  it("should honor the timezone", () => {
+    const tokyo = { timezone: "Asia/Tokyo", start: "09:00", end: "17:00" };
+    // 12:00 UTC is 21:00 in Tokyo; the window opens at 09:00 Tokyo, i.e. 00:00 UTC
+    expect(nextWindowStart(tokyo, wednesdayNoonUtc)?.toISOString()).toBe("2026-03-05T00:00:00.000Z");
+  });
+
+  it("should return null when there is no window within a week", () => {
+    expect(nextWindowStart({ timezone: "UTC", cron: "0 9 1 1 *" }, wednesdayNoonUtc)).toBeNull();
+    expect(nextWindowStart({ timezone: "Mars/Olympus" }, wednesdayNoonUtc)).toBeNull();
+  });
+});
+
+describe("validateSchedule", () => {
+  it("should accept a valid schedule", () => {
+    expect(
+      validateSchedule({ timezone: "Europe/Berlin", days: ["mon"], start: "09:00", end: "17:30", cron: "0 9 * * 1-5" }),
+    ).toEqual([]);
+  });
+
+  it("should report invalid timezones", () => {
+    expect(validateSchedule({ timezone: "Nowhere/Special" })[0]).toContain("timezone");
+  });
+
+  it("should report unknown days", () => {
+    expect(validateSchedule({ days: ["monday" as never] })[0]).toContain("monday");
+  });
+
+  it("should report malformed times", () => {
+    expect(validateSchedule({ start: "9am" })[0]).toContain("start");
+    expect(validateSchedule({ end: "24:00" })[0]).toContain("end");
+  });
+
+  it("should not allow holding messages and outside targets together", () => {
+    expect(validateSchedule({ holdOutside: true, outsideTargets: ["oncall"] })).toEqual([
+      "holdOutside and outsideTargets cannot both be set",
+    ]);
+  });
+
+  it("should report invalid cron expressions", () => {
+    expect(validateSchedule({ cron: "* * *" })[0]).toContain("five fields");
+    expect(validateSchedule({ cron: "61 * * * *" })[0]).toContain("out of range");
+    expect(validateSchedule({ cron: "*/0 * * * *" })[0]).toContain("step");
+  });
+});
@@ -4,7 +4,22 @@ import {
   incrementRouted,
   incrementOutgoingRouted,
   recordRouteHit,
+  incrementCircuitRejected,
+  incrementDeliveriesDelayed,
+  incrementDigestsDelivered,
+  incrementDuplicatesSuppressed,
   incrementErrors,
+  incrementFailovers,
+  incrementGatherTimeouts,
+  incrementGathersCompleted,
+  incrementLoopsRejected,
+  incrementMessagesDigested,
+  incrementRetries,
+  incrementRetryExhausted,
+  incrementRetrySucceeded,
+  incrementTimeouts,
+  recordRateLimitOverflow,
+  recordStrategySelection,
   resetStats,
 } from "../src/stats.js";
 
@@ -64,6 +79,93 @@ describe("stats", () => {
     expect(getStats().errors).toBe(2);
   });
 
+  it("should count retries and retried outcomes separately", () => {
+    incrementRetries();
+    incrementRetries();
+    incrementRetrySucceeded();
+    incrementRetryExhausted();
+    const stats = getStats();
+    expect(stats.retries).toBe(2);
+    expect(stats.retrySucceeded).toBe(1);
+    expect(stats.retryExhausted).toBe(1);
+    resetStats();
+    expect(getStats().retries).toBe(0);
+  });
+
+  it("should count rate limit overflow by outcome and by limit", () => {
+    recordRateLimitOverflow("session:billing", "dropped");
+    recordRateLimitOverflow("session:billing", "queued");
+    recordRateLimitOverflow("route:escalate", "sampled");
+    const stats = getStats();
+    expect(stats.rateLimitDropped).toBe(1);
+    expect(stats.rateLimitQueued).toBe(1);
+    expect(stats.rateLimitSampled).toBe(1);
+    expect(stats.rateLimitOverflows).toEqual({ "session:billing": 2, "route:escalate": 1 });
+    resetStats();
+    expect(getStats().rateLimitOverflows).toEqual({});
+  });
+
+  it("should count suppressed duplicates", () => {
+    incrementDuplicatesSuppressed();
+    expect(getStats().duplicatesSuppressed).toBe(1);
+    resetStats();
+    expect(getStats().duplicatesSuppressed).toBe(0);
+  });
+
+  it("should count rejected loops", () => {
+    incrementLoopsRejected();
+    expect(getStats().loopsRejected).toBe(1);
+  });
+
+  it("should count deliveries refused by an open circuit", () => {
+    incrementCircuitRejected();
+    expect(getStats().circuitRejected).toBe(1);
+  });
+
+  it("should count failovers", () => {
+    incrementFailovers();
+    expect(getStats().failovers).toBe(1);
+    resetStats();
+    expect(getStats().failovers).toBe(0);
+  });
+
+  it("should count completed scatter-gathers and missed replies", () => {
+    incrementGathersCompleted();
+    incrementGatherTimeouts();
+    incrementGatherTimeouts();
+    expect(getStats().gathersCompleted).toBe(1);
+    expect(getStats().gatherTimeouts).toBe(2);
+  });
+
+  it("should count digests and the messages collected into them", () => {
+    incrementMessagesDigested();
+    incrementMessagesDigested();
+    incrementDigestsDelivered();
+    expect(getStats().messagesDigested).toBe(2);
+    expect(getStats().digestsDelivered).toBe(1);
+  });
+
+  it("should count strategy selections per route and target", () => {
+    recordStrategySelection("route:workers", "w1");
+    recordStrategySelection("route:workers", "w1");
+    recordStrategySelection("route:workers", "w2");
+    const stats = getStats();
+    expect(stats.strategySelections).toEqual({ "route:workers": { w1: 2, w2: 1 } });
+    (stats.strategySelections["route:workers"] as any).w1 = 99;
+    expect(getStats().strategySelections["route:workers"].w1).toBe(2);
+  });
+
+  it("should count delayed deliveries", () => {
+    incrementDeliveriesDelayed();
+    expect(getStats().deliveriesDelayed).toBe(1);
+  });
+
+  it("should count timeouts separately from errors", () => {
+    incrementTimeouts();
+    expect(getStats().timeouts).toBe(1);
+    expect(getStats().errors).toBe(0);
+  });
+
   it("should reset all counters, clear routeHits, and update startedAt", () => {
     incrementRouted();
     incrementOutgoingRouted();
@@ -0,0 +1,56 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { resetStrategies, selectTargets } from "../src/strategy.js";
+
+const workers = ["w1", "w2", "w3"];
+
+describe("selectTargets", () => {
+  afterEach(() => {
+    resetStrategies();
+  });
+
+  it("should return every target for broadcast or no strategy", () => {
+    expect(selectTargets("r", "broadcast", workers)).toEqual(workers);
+    expect(selectTargets("r", undefined, workers)).toEqual(workers);
+  });
+
+  it("should return nothing when there are no targets", () => {
+    expect(selectTargets("r", "round-robin", [])).toEqual([]);
+  });
+
+  it("should take turns with round-robin, per route", () => {
+    const picks = [1, 2, 3, 4].map(() => selectTargets("r", "round-robin", workers)[0]);
+    expect(picks).toEqual(["w1", "w2", "w3", "w1"]);
+    expect(selectTargets("other", "round-robin", workers)).toEqual(["w1"]);
+  });
+
+  it("should pick by the random number for random", () => {
+    expect(selectTargets("r", "random", workers, undefined, () => 0)).toEqual(["w1"]);
+    expect(selectTargets("r", "random", workers, undefined, () => 0.99)).toEqual(["w3"]);
+  });
+
+  it("should pick in proportion to weights, defaulting to 1", () => {
+    const weights = { w1: 0, w2: 3 };
+    // Total weight is 4: w2 covers [0, 3) and w3 covers [3, 4)
+    expect(selectTargets("r", "weighted", workers, weights, () => 0)).toEqual(["w2"]);
+    expect(selectTargets("r", "weighted", workers, weights, () => 0.74)).toEqual(["w2"]);
+    expect(selectTargets("r", "weighted", workers, weights, () => 0.75)).toEqual(["w3"]);
+  });
+
+  it("should fall back to an even pick when every weight is zero", () => {
+    expect(selectTargets("r", "weighted", ["w1", "w2"], { w1: 0, w2: 0 }, () => 0.6)).toEqual(["w2"]);
+  });
+
+  it("should pick the target used longest ago for least-recently-used", () => {
+    expect(selectTargets("r", "least-recently-used", workers)).toEqual(["w1"]);
+    expect(selectTargets("r", "least-recently-used", workers)).toEqual(["w2"]);
+    selectTargets("r", "random", workers, undefined, () => 0.99);
+    // w3 was just picked at random, so w1 is now the oldest
+    expect(selectTargets("r", "least-recently-used", workers)).toEqual(["w1"]);
+    expect(selectTargets("r", "least-recently-used", workers)).toEqual(["w2"]);
+  });
+
+  it("should prefer targets that were never picked", () => {
+    selectTargets("r", "least-recently-used", ["w1"]);
+    expect(selectTargets("r", "least-recently-used", ["w1", "w2"])).toEqual(["w2"]);
+  });
+});
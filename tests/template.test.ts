@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { renderTemplate, validateTemplate } from "../src/template.js";
+
+const vars = {
+  message: "hello",
+  session: "support",
+  target: "billing",
+  "channel.type": "discord",
+  "channel.id": "42",
+  timestamp: "2026-03-04T12:00:00.000Z",
+  route: "support-to-billing",
+};
+
+describe("renderTemplate", () => {
+  it("should replace every placeholder", () => {
+    expect(renderTemplate("[{{channel.type}}#{{channel.id}} via {{session}}] {{message}}", vars)).toBe(
+      "[discord#42 via support] hello",
+    );
+    expect(renderTemplate("{{route}} -> {{target}} at {{timestamp}}", vars)).toBe(
+      "support-to-billing -> billing at 2026-03-04T12:00:00.000Z",
+    );
+  });
+
+  it("should allow whitespace inside markers", () => {
+    expect(renderTemplate("{{ message }}", vars)).toBe("hello");
+  });
+
+  it("should render missing values as empty strings", () => {
+    expect(renderTemplate("[{{channel.type}}] {{message}}", { message: "m", session: "s", timestamp: "t" })).toBe("[] m");
+  });
+
+  it("should leave unknown placeholders untouched", () => {
+    expect(renderTemplate("{{user}}: {{message}}", vars)).toBe("{{user}}: hello");
+  });
+
+  it("should accept a custom placeholder list", () => {
+    expect(renderTemplate("{{count}} {{message}}", { count: "3" }, ["count"])).toBe("3 {{message}}");
+  });
+
+  it("should not expand placeholders inside the message", () => {
+    expect(renderTemplate("> {{message}}", { ...vars, message: "{{session}}" })).toBe("> {{session}}");
+  });
+});
+
+describe("validateTemplate", () => {
+  it("should accept known placeholders", () => {
+    expect(validateTemplate("[{{channel.type}}#{{channel.id}} via {{session}}] {{message}}")).toEqual([]);
+  });
+
+  it("should report unknown placeholders", () => {
+    const problems = validateTemplate("{{user}} {{message}}");
+    expect(problems).toHaveLength(1);
+    expect(problems[0]).toContain("{{user}}");
+  });
+
+  it("should check against a custom placeholder list", () => {
+    expect(validateTemplate("{{count}}", ["count"])).toEqual([]);
+    expect(validateTemplate("{{message}}", ["count"])).toEqual([
+      'unknown placeholder "{{message}}"; expected one of count',
+    ]);
+  });
+});
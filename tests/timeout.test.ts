@@ -0,0 +1,46 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { DeliveryTimeoutError, withTimeout } from "../src/timeout.js";
+
+describe("withTimeout", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should resolve with the promise's value when it settles in time", async () => {
+    await expect(withTimeout(Promise.resolve("ok"), 1000)).resolves.toBe("ok");
+  });
+
+  it("should pass through the promise's rejection", async () => {
+    await expect(withTimeout(Promise.reject(new Error("boom")), 1000)).rejects.toThrow("boom");
+  });
+
+  it("should reject with a DeliveryTimeoutError once the time is up", async () => {
+    vi.useFakeTimers();
+    const result = withTimeout(new Promise(() => {}), 500);
+    const assertion = expect(result).rejects.toBeInstanceOf(DeliveryTimeoutError);
+    await vi.advanceTimersByTimeAsync(500);
+    await assertion;
+  });
+
+  it("should not time out without a positive timeout", async () => {
+    const promise = Promise.resolve("ok");
+    expect(withTimeout(promise, undefined)).toBe(promise);
+    expect(withTimeout(promise, 0)).toBe(promise);
+  });
+
+  it("should clear its timer when the promise settles", async () => {
+    vi.useFakeTimers();
+    await withTimeout(Promise.resolve("ok"), 500);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
+
+describe("DeliveryTimeoutError", () => {
+  it("should describe the timeout and carry a code for retry matching", () => {
+    const err = new DeliveryTimeoutError(250);
+    expect(err.message).toBe("Delivery timed out after 250ms");
+    expect(err.name).toBe("DeliveryTimeoutError");
+    expect(err.code).toBe("ETIMEDOUT");
+    expect(err.timeoutMs).toBe(250);
+  });
+});
@@ -166,4 +166,142 @@ describe("RouterPluginUI", () => {
     await new Promise((r) => setTimeout(r, 10));
     expect(saveMock).not.toHaveBeenCalled();
   });
+
+  it("should show whether scheduled routes are active, as the router reports it", async () => {
+    vi.resetModules();
+    const solidMock = createMockSolidSignals();
+    (window as any).Solid = {
+      createSignal: solidMock.createSignal,
+      onMount: solidMock.onMount,
+    };
+    const fetchMock = vi.fn(async (url: URL) => ({
+      json: async () =>
+        String(url).includes("/api/webmcp/routes")
+          ? { incoming: [{ active: false }, { active: true }, { active: true }] }
+          : {},
+    }));
+    vi.stubGlobal("fetch", fetchMock);
+    const { default: UI } = await import("../src/ui.ts");
+
+    const props = {
+      api: {
+        getConfig: vi.fn(async () => ({
+          plugins: {
+            data: {
+              router: {
+                routes: [
+                  {
+                    sourceSession: "alerts",
+                    targetSessions: ["day-shift"],
+                    schedule: { days: ["mon", "tue", "wed", "thu", "fri", "sat", "sun"] },
+                  },
+                  {
+                    sourceSession: "alerts",
+                    targetSessions: ["never"],
+                    schedule: { start: "00:00", end: "00:00" },
+                  },
+                  { sourceSession: "a", targetSessions: ["b"] },
+                ],
+              },
+            },
+          },
+        })),
+      },
+      saveConfig: vi.fn(async () => {}),
+    };
+
+    const container = UI(props);
+    for (const cb of solidMock.mountCallbacks) await cb();
+    vi.unstubAllGlobals();
+
+    // The browser's clock and timezone play no part: the first route would be active anywhere
+    const badges = Array.from(container.querySelectorAll(".route-schedule")).map((el) => el.textContent);
+    expect(badges).toEqual(["Schedule: inactive", "Schedule: active now"]);
+  });
+
+  it("should show schedules without a state when the routes endpoint is unreachable", async () => {
+    vi.resetModules();
+    const solidMock = createMockSolidSignals();
+    (window as any).Solid = {
+      createSignal: solidMock.createSignal,
+      onMount: solidMock.onMount,
+    };
+    vi.stubGlobal("fetch", vi.fn(async () => {
+      throw new Error("offline");
+    }));
+    const { default: UI } = await import("../src/ui.ts");
+
+    const container = UI({
+      api: {
+        getConfig: vi.fn(async () => ({
+          plugins: { data: { router: { routes: [{ sourceSession: "a", targetSessions: ["b"], schedule: { start: "09:00" } }] } } },
+        })),
+      },
+      saveConfig: vi.fn(async () => {}),
+    });
+    for (const cb of solidMock.mountCallbacks) await cb();
+    vi.unstubAllGlobals();
+
+    const badges = Array.from(container.querySelectorAll(".route-schedule")).map((el) => el.textContent);
+    expect(badges).toEqual(["Schedule: set"]);
+  });
+
+  it("should list failing targets from the status endpoint", async () => {
+    vi.resetModules();
+    const solidMock = createMockSolidSignals();
+    (window as any).Solid = {
+      createSignal: solidMock.createSignal,
+      onMount: solidMock.onMount,
+    };
+    const fetchMock = vi.fn(async () => ({
+      json: async () => ({
+        circuits: {
+          open: 1,
+          targets: [
+            { target: "session:billing", state: "open", failures: 5, retryAt: "2026-03-02T10:00:30.000Z" },
+            { target: "channel:discord:1", state: "closed", failures: 2, retryAt: null },
+          ],
+        },
+      }),
+    }));
+    vi.stubGlobal("fetch", fetchMock);
+    const { default: UI } = await import("../src/ui.ts");
+
+    const container = UI({
+      api: { getConfig: vi.fn(async () => ({})) },
+      saveConfig: vi.fn(async () => {}),
+    });
+    for (const cb of solidMock.mountCallbacks) await cb();
+    vi.unstubAllGlobals();
+
+    expect(String((fetchMock.mock.calls[0] as unknown[])[0])).toContain("/api/webmcp/status");
+    const items = Array.from(container.querySelectorAll(".circuit-state")).map((el) => el.textContent);
+    expect(items).toEqual([
+      "session:billing: open (5 failures, retrying at 2026-03-02T10:00:30.000Z)",
+      "channel:discord:1: closed (2 failures)",
+    ]);
+  });
+
+  it("should render without failing targets when the status endpoint is unreachable", async () => {
+    vi.resetModules();
+    const solidMock = createMockSolidSignals();
+    (window as any).Solid = {
+      createSignal: solidMock.createSignal,
+      onMount: solidMock.onMount,
+    };
+    vi.stubGlobal("fetch", vi.fn(async () => {
+      throw new Error("offline");
+    }));
+    const { default: UI } = await import("../src/ui.ts");
+
+    const container = UI({
+      api: { getConfig: vi.fn(async () => ({})) },
+      saveConfig: vi.fn(async () => {}),
+    });
+    for (const cb of solidMock.mountCallbacks) await cb();
+    vi.unstubAllGlobals();
+
+    expect(container.querySelectorAll(".circuit-state")).toHaveLength(0);
+    expect(container.textContent).not.toContain("Failing Targets");
+  });
 });
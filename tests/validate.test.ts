@@ -0,0 +1,440 @@
+import { describe, it, expect } from "vitest";
+import { routerConfigWarnings, validateRouterConfig } from "../src/validate.js";
+
+describe("validateRouterConfig", () => {
+  it("should return no problems for an empty config", () => {
+    expect(validateRouterConfig({})).toEqual([]);
+  });
+
+  it("should accept literal, glob and regex patterns", () => {
+    const problems = validateRouterConfig({
+      routes: [{ sourceSession: "support-*", channelId: "/^\\d+$/", targetSessions: ["b"] }],
+      outgoingRoutes: [{ sourceSession: "a", channelType: "disc*" }],
+    });
+    expect(problems).toEqual([]);
+  });
+
+  it("should report invalid regex patterns with their location", () => {
+    const problems = validateRouterConfig({
+      routes: [{ sourceSession: "ok" }, { channelType: "/(bad/" }],
+    });
+    expect(problems).toHaveLength(1);
+    expect(problems[0]).toContain("routes[1].channelType");
+  });
+
+  it("should report invalid outgoing route patterns", () => {
+    const problems = validateRouterConfig({
+      outgoingRoutes: [{ channelId: "/[/" }],
+    });
+    expect(problems).toHaveLength(1);
+    expect(problems[0]).toContain("outgoingRoutes[0].channelId");
+  });
+
+  it("should report non-string pattern fields", () => {
+    const problems = validateRouterConfig({
+      routes: [{ sourceSession: 42 as unknown as string }],
+    });
+    expect(problems[0]).toContain("must be a string");
+  });
+});
+
+describe("validateRouterConfig content conditions", () => {
+  it("should report invalid content regexes", () => {
+    const problems = validateRouterConfig({
+      routes: [{ content: { regex: "(unclosed" } }],
+    });
+    expect(problems).toHaveLength(1);
+    expect(problems[0]).toContain("routes[0].content.regex");
+  });
+
+  it("should report impossible length ranges", () => {
+    const problems = validateRouterConfig({
+      routes: [{ content: { minLength: 10, maxLength: 5 } }],
+    });
+    expect(problems[0]).toContain("never match");
+  });
+
+  it("should accept valid content conditions", () => {
+    const problems = validateRouterConfig({
+      routes: [{ content: { regex: "outage|down", keywords: ["billing"], minLength: 1, commandPrefix: "!ops" } }],
+    });
+    expect(problems).toEqual([]);
+  });
+});
+
+describe("validateRouterConfig match expressions", () => {
+  it("should accept nested expressions", () => {
+    const problems = validateRouterConfig({
+      routes: [
+        {
+          targetSessions: ["b"],
+          match: { all: [{ any: [{ channelType: "discord" }, { channelType: "slack" }] }, { not: { channelId: "42" } }] },
+        },
+      ],
+      outgoingRoutes: [{ match: { not: { channelType: "sms" } } }],
+    });
+    expect(problems).toEqual([]);
+  });
+
+  it("should report invalid patterns inside expressions with their path", () => {
+    const problems = validateRouterConfig({
+      routes: [{ match: { any: [{ channelType: "discord" }, { not: { channelId: "/(/" } }] } }],
+    });
+    expect(problems).toHaveLength(1);
+    expect(problems[0]).toContain("routes[0].match.any[1].not.channelId");
+  });
+
+  it("should report nodes mixing operators", () => {
+    const problems = validateRouterConfig({
+      routes: [{ match: { all: [], channelType: "discord" } as never }],
+    });
+    expect(problems[0]).toContain("exactly one");
+  });
+
+  it("should report non-array all / any", () => {
+    const problems = validateRouterConfig({
+      outgoingRoutes: [{ match: { any: { channelType: "discord" } } as never }],
+    });
+    expect(problems[0]).toContain("outgoingRoutes[0].match.any must be an array");
+  });
+});
+
+describe("validateRouterConfig ordering", () => {
+  it("should accept priority, final and fallback", () => {
+    expect(
+      validateRouterConfig({
+        routes: [{ priority: 10, final: true }, { fallback: true }],
+        outgoingRoutes: [{ priority: -1 }],
+      }),
+    ).toEqual([]);
+  });
+
+  it("should report a non-numeric priority", () => {
+    const problems = validateRouterConfig({ routes: [{ priority: "high" as unknown as number }] });
+    expect(problems[0]).toContain("routes[0].priority");
+  });
+
+  it("should report non-boolean flags", () => {
+    const problems = validateRouterConfig({ outgoingRoutes: [{ final: "yes" as unknown as boolean }] });
+    expect(problems[0]).toContain("outgoingRoutes[0].final");
+  });
+});
+
+describe("validateRouterConfig modes", () => {
+  it("should accept known modes", () => {
+    expect(
+      validateRouterConfig({
+        routes: [{ mode: "copy" }, { mode: "divert" }, { mode: "drop" }, { mode: "scatter-gather" }],
+      }),
+    ).toEqual([]);
+  });
+
+  it("should report unknown modes", () => {
+    const problems = validateRouterConfig({ routes: [{ mode: "move" as never }] });
+    expect(problems[0]).toContain("routes[0].mode");
+  });
+});
+
+describe("validateRouterConfig schedules", () => {
+  it("should report schedule problems with their location", () => {
+    const problems = validateRouterConfig({ routes: [{ schedule: { timezone: "Nowhere/Special", cron: "* *" } }] });
+    expect(problems).toHaveLength(2);
+    expect(problems[0]).toContain("routes[0].schedule.timezone");
+    expect(problems[1]).toContain("routes[0].schedule.cron");
+  });
+});
+
+describe("validateRouterConfig templates", () => {
+  it("should report unknown template placeholders on both route kinds", () => {
+    const problems = validateRouterConfig({
+      routes: [{ template: "{{message}} from {{user}}" }],
+      outgoingRoutes: [{ template: "{{reply}}" }],
+    });
+    expect(problems).toHaveLength(2);
+    expect(problems[0]).toContain("routes[0].template");
+    expect(problems[1]).toContain("outgoingRoutes[0].template");
+  });
+});
+
+describe("validateRouterConfig transforms", () => {
+  it("should report transform problems with their location", () => {
+    const problems = validateRouterConfig({
+      routes: [{ transforms: [{ type: "redact", preset: "email" }, { type: "truncate", maxLength: -1 }] }],
+      outgoingRoutes: [{ transforms: {} as never }],
+    });
+    expect(problems).toHaveLength(2);
+    expect(problems[0]).toContain("routes[0].transforms[1].maxLength");
+    expect(problems[1]).toContain("outgoingRoutes[0].transforms must be an array");
+  });
+});
+
+describe("validateRouterConfig formats", () => {
+  it("should report unknown format profiles", () => {
+    const problems = validateRouterConfig({
+      outgoingRoutes: [{ format: "html" as never }],
+      channelFormats: { slack: "slack", sms: "text" as never },
+    });
+    expect(problems).toHaveLength(2);
+    expect(problems[0]).toContain("outgoingRoutes[0].format");
+    expect(problems[1]).toContain("channelFormats.sms");
+  });
+});
+
+describe("validateRouterConfig target channels", () => {
+  it("should report target channels without a type and id", () => {
+    expect(
+      validateRouterConfig({
+        outgoingRoutes: [
+          { targetChannels: [{ type: "slack", id: "audit" }, { type: "slack" } as any, { type: "", id: "x" }] },
+          { targetChannels: { type: "slack", id: "audit" } as any },
+        ],
+      }),
+    ).toEqual([
+      "outgoingRoutes[0].targetChannels[1] must have a channel type and id",
+      "outgoingRoutes[0].targetChannels[2] must have a channel type and id",
+      "outgoingRoutes[1].targetChannels must be an array of channels",
+    ]);
+  });
+});
+
+describe("validateRouterConfig chunking", () => {
+  it("should report invalid chunk limits", () => {
+    const problems = validateRouterConfig({ chunking: { limits: { discord: 2000, sms: 5 } } });
+    expect(problems).toHaveLength(1);
+    expect(problems[0]).toContain("chunking.limits.sms");
+  });
+});
+
+describe("validateRouterConfig retry", () => {
+  it("should report invalid retry policies on routes and the config default", () => {
+    const problems = validateRouterConfig({
+      retry: { maxAttempts: 0 },
+      routes: [{ targetSessions: ["b"], retry: { jitter: 2, retryOn: ["/(unclosed/"] } }],
+      outgoingRoutes: [{ retry: { baseDelayMs: -1 } }],
+    });
+    expect(problems).toHaveLength(4);
+    expect(problems).toContainEqual(expect.stringContaining("routes[0].retry.jitter"));
+    expect(problems).toContainEqual(expect.stringContaining("routes[0].retry.retryOn has invalid pattern"));
+    expect(problems).toContainEqual(expect.stringContaining("outgoingRoutes[0].retry.baseDelayMs"));
+    expect(problems).toContainEqual("retry.maxAttempts must be a positive integer");
+  });
+});
+
+describe("validateRouterConfig dead letters", () => {
+  it("should report an invalid maxEntries", () => {
+    expect(validateRouterConfig({ deadLetters: { maxEntries: 0 } })).toEqual([
+      "deadLetters.maxEntries must be a positive integer",
+    ]);
+  });
+});
+
+describe("validateRouterConfig rate limits", () => {
+  it("should report invalid limits on routes and shared limits", () => {
+    const problems = validateRouterConfig({
+      routes: [{ targetSessions: ["b"], rateLimit: { rate: 0 } }],
+      outgoingRoutes: [{ rateLimit: { rate: 1, overflow: "block" as any } }],
+      rateLimits: {
+        sessions: { "/(bad/": { rate: 1 } },
+        channels: { "discord:*": { rate: 1, sampleRate: 2 } },
+      },
+    });
+    expect(problems).toEqual([
+      "routes[0].rateLimit.rate must be a positive number",
+      "outgoingRoutes[0].rateLimit.overflow must be one of drop, queue, sample",
+      expect.stringContaining('rateLimits.sessions has invalid pattern "/(bad/"'),
+      "rateLimits.channels.discord:*.sampleRate must be a number between 0 and 1",
+    ]);
+  });
+});
+
+describe("validateRouterConfig dedup", () => {
+  it("should report invalid dedup settings", () => {
+    expect(validateRouterConfig({ dedup: { windowMs: -1, maxEntries: 1.5 } })).toEqual([
+      "dedup.windowMs must be a non-negative number",
+      "dedup.maxEntries must be a positive integer",
+    ]);
+  });
+});
+
+describe("validateRouterConfig loop detection", () => {
+  it("should report invalid hop limits", () => {
+    expect(validateRouterConfig({ loopDetection: { maxHops: 0 } })).toEqual([
+      "loopDetection.maxHops must be a positive integer",
+    ]);
+  });
+});
+
+describe("routerConfigWarnings", () => {
+  it("should warn about cycles in the route graph", () => {
+    const warnings = routerConfigWarnings({
+      routes: [
+        { sourceSession: "a", targetSessions: ["b"] },
+        { sourceSession: "b", targetSessions: ["a"] },
+      ],
+    });
+    expect(warnings).toEqual([expect.stringContaining("cycle a -> b -> a")]);
+  });
+
+  it("should have nothing to say about an acyclic config", () => {
+    expect(routerConfigWarnings({ routes: [{ sourceSession: "a", targetSessions: ["b"] }] })).toEqual([]);
+  });
+
+  it("should warn about weights that cannot take effect", () => {
+    expect(
+      routerConfigWarnings({
+        routes: [
+          { targetSessions: ["w1"], strategy: "weighted", weights: { w1: 2, w9: 1 } },
+          { targetSessions: ["w1"], weights: { w1: 2 } },
+        ],
+      }),
+    ).toEqual([
+      'routes[0].weights has "w9", which is not one of its targetSessions',
+      'routes[1].weights only apply with the "weighted" strategy',
+    ]);
+  });
+
+  it("should warn about affinity on a broadcasting route", () => {
+    expect(
+      routerConfigWarnings({
+        routes: [
+          { sourceSession: "jobs", targetSessions: ["w1", "w2"], strategy: "random", affinity: { key: "channel" } },
+          { sourceSession: "jobs", targetSessions: ["w1", "w2"], affinity: { key: "channel" } },
+        ],
+      }),
+    ).toEqual(['routes[1].affinity only applies with a strategy other than "broadcast"']);
+  });
+});
+
+describe("validateRouterConfig strategies", () => {
+  it("should report unknown strategies and bad weights", () => {
+    expect(
+      validateRouterConfig({
+        routes: [
+          { targetSessions: ["w1", "w2"], strategy: "fastest" as any },
+          { targetSessions: ["w1", "w2"], strategy: "weighted", weights: { w1: -1, w2: 3 } },
+        ],
+      }),
+    ).toEqual([
+      "routes[0].strategy must be one of broadcast, round-robin, random, weighted, least-recently-used",
+      "routes[1].weights.w1 must be a non-negative number",
+    ]);
+  });
+
+  it("should report unknown affinity keys and bad TTLs", () => {
+    expect(
+      validateRouterConfig({
+        routes: [
+          { targetSessions: ["w1"], strategy: "random", affinity: { key: "channelId", ttlMs: 60_000 } },
+          { targetSessions: ["w1"], strategy: "random", affinity: { key: "user" as any, ttlMs: -1 } },
+        ],
+      }),
+    ).toEqual([
+      "routes[1].affinity.key must be one of channelId, channel, session",
+      "routes[1].affinity.ttlMs must be a non-negative number",
+    ]);
+  });
+});
+
+describe("validateRouterConfig failover", () => {
+  it("should report primary targets mixed with targetSessions and bad fallbacks", () => {
+    expect(
+      validateRouterConfig({
+        routes: [
+          { primaryTarget: "a", fallbackTargets: ["b", "c"] },
+          { primaryTarget: "", fallbackTargets: "b" as any },
+          { primaryTarget: "a", targetSessions: ["b"], fallbackTargets: ["c", 1 as any] },
+        ],
+      }),
+    ).toEqual([
+      "routes[1].primaryTarget must be a session name",
+      "routes[1].fallbackTargets must be an array of session names",
+      "routes[2].primaryTarget and targetSessions cannot both be set",
+      "routes[2].fallbackTargets must be an array of session names",
+    ]);
+  });
+});
+
+describe("validateRouterConfig circuit breaker", () => {
+  it("should report invalid breaker settings", () => {
+    const problems = validateRouterConfig({
+      circuitBreaker: { failureThreshold: 0, fallbacks: { "/(bad/": "ops", billing: "" } },
+    });
+    expect(problems).toEqual([
+      "circuitBreaker.failureThreshold must be a positive integer",
+      expect.stringContaining('circuitBreaker.fallbacks has invalid pattern "/(bad/"'),
+      "circuitBreaker.fallbacks.billing must be a session name",
+    ]);
+  });
+});
+
+describe("validateRouterConfig timeouts", () => {
+  it("should report negative timeouts", () => {
+    expect(
+      validateRouterConfig({
+        timeoutMs: -1,
+        routes: [{ targetSessions: ["b"], timeoutMs: -5 }],
+        outgoingRoutes: [{ timeoutMs: "soon" as any }],
+      }),
+    ).toEqual([
+      "routes[0].timeoutMs must be a non-negative number",
+      "outgoingRoutes[0].timeoutMs must be a non-negative number",
+      "timeoutMs must be a non-negative number",
+    ]);
+  });
+});
+
+describe("validateRouterConfig digests", () => {
+  it("should report digest problems with the route's position", () => {
+    expect(
+      validateRouterConfig({
+        routes: [{ targetSessions: ["ops"], digest: { windowMs: 60000, header: "{{count}} alerts" } }],
+      }),
+    ).toEqual([]);
+    expect(validateRouterConfig({ routes: [{ targetSessions: ["ops"], digest: { maxMessages: 0 } }] })).toEqual([
+      "routes[0].digest.maxMessages must be a positive integer",
+    ]);
+  });
+});
+
+describe("validateRouterConfig scatter-gather", () => {
+  it("should report gather problems with the route's position", () => {
+    expect(
+      validateRouterConfig({
+        routes: [{ targetSessions: ["billing"], mode: "scatter-gather", gather: { merge: "aggregate" } }],
+      }),
+    ).toEqual(['routes[0].gather.aggregator must be a session name when merge is "aggregate"']);
+  });
+
+  it("should warn about settings scatter-gather does not use", () => {
+    expect(
+      routerConfigWarnings({
+        routes: [
+          { sourceSession: "support", targetSessions: ["billing"], gather: { merge: "first" } },
+          { sourceSession: "support", targetSessions: ["billing"], mode: "scatter-gather", strategy: "random", delayMs: 10 },
+          {
+            sourceSession: "support",
+            targetSessions: ["billing"],
+            mode: "scatter-gather",
+            schedule: { start: "09:00", end: "17:00", holdOutside: true },
+          },
+        ],
+      }),
+    ).toEqual([
+      'routes[0].gather only applies with the "scatter-gather" mode',
+      'routes[1].strategy has no effect with the "scatter-gather" mode',
+      'routes[1].delayMs has no effect with the "scatter-gather" mode',
+      'routes[2].schedule.holdOutside has no effect with the "scatter-gather" mode; messages outside the window are asked right away',
+    ]);
+  });
+});
+
+describe("validateRouterConfig delays", () => {
+  it("should report negative delays", () => {
+    expect(
+      validateRouterConfig({
+        routes: [{ targetSessions: ["b"], delayMs: -1 }],
+        outgoingRoutes: [{ delayMs: 60000 }, { delayMs: -2 }],
+      }),
+    ).toEqual(["routes[0].delayMs must be a non-negative number", "outgoingRoutes[1].delayMs must be a non-negative number"]);
+  });
+});
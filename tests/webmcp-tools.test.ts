@@ -1,5 +1,8 @@
 import { describe, it, expect } from "vitest";
 import {
+  buildAffinityResponse,
+  buildDeadLettersResponse,
+  buildDelayedDeliveriesResponse,
   buildRouterStatusResponse,
   buildListRoutesResponse,
   buildRoutingStatsResponse,
@@ -33,6 +36,22 @@ describe("buildRouterStatusResponse", () => {
     expect(result.enabled).toBe(false);
   });
 
+  it("should report circuit breaker state", () => {
+    const circuits = [
+      { target: "session:a", state: "closed" as const, failures: 1, openedAt: null, retryAt: null },
+      {
+        target: "channel:discord:1",
+        state: "open" as const,
+        failures: 5,
+        openedAt: "2026-03-02T10:00:00.000Z",
+        retryAt: "2026-03-02T10:00:30.000Z",
+      },
+    ];
+    const result = buildRouterStatusResponse({}, true, circuits);
+    expect(result.circuits).toEqual({ open: 1, targets: circuits });
+    expect(buildRouterStatusResponse({}, true).circuits).toEqual({ open: 0, targets: [] });
+  });
+
   it("should handle undefined routes and outgoingRoutes", () => {
     const result = buildRouterStatusResponse({}, true);
     expect(result.totalRoutes).toBe(0);
@@ -59,6 +78,7 @@ describe("buildListRoutesResponse", () => {
     expect(incoming[0].source).toBe("session-a");
     expect(incoming[0].targets).toEqual(["session-b", "session-c"]);
     expect(incoming[0].channelType).toBe("discord");
+    expect(incoming[0].mode).toBe("copy");
 
     expect(outgoing).toHaveLength(1);
     expect(outgoing[0].source).toBe("session-a");
@@ -94,6 +114,36 @@ describe("buildListRoutesResponse", () => {
     expect(incoming[0].summary).toContain("* -> b");
   });
 
+  it("should include a route's affinity", () => {
+    const affinity = { key: "channelId" as const, ttlMs: 60_000 };
+    const result = buildListRoutesResponse({
+      routes: [{ targetSessions: ["w1", "w2"], strategy: "round-robin", affinity }, { targetSessions: ["b"] }],
+    });
+    const incoming = result.incoming as any[];
+    expect(incoming[0].affinity).toEqual(affinity);
+    expect(incoming[1].affinity).toBeNull();
+  });
+
+  it("should list an outgoing route's target channels", () => {
+    const result = buildListRoutesResponse({
+      outgoingRoutes: [{ sourceSession: "support", targetChannels: [{ type: "slack", id: "audit" }] }],
+    });
+    const outgoing = result.outgoing as any[];
+    expect(outgoing[0].targetChannels).toEqual(["slack:audit"]);
+    expect(outgoing[0].summary).toBe("support -> slack:audit");
+  });
+
+  it("should list primary and fallback targets", () => {
+    const config = {
+      routes: [{ sourceSession: "a", primaryTarget: "b", fallbackTargets: ["c", "d"] }],
+    };
+    const result = buildListRoutesResponse(config);
+    const incoming = result.incoming as any[];
+    expect(incoming[0].targets).toEqual(["b"]);
+    expect(incoming[0].fallbacks).toEqual(["c", "d"]);
+    expect(incoming[0].summary).toBe("a -> b (then c, d)");
+  });
+
   it("should include channelType in incoming summary when present", () => {
     const config = {
       routes: [{ sourceSession: "a", targetSessions: ["b"], channelType: "discord" }],
@@ -132,12 +182,49 @@ describe("buildListRoutesResponse", () => {
   });
 });
 
+describe("buildListRoutesResponse schedules", () => {
+  it("should report whether scheduled routes are active", () => {
+    const config = {
+      routes: [
+        { sourceSession: "a", targetSessions: ["b"], schedule: { timezone: "UTC", start: "09:00", end: "17:00" } },
+        { sourceSession: "a", targetSessions: ["c"] },
+      ],
+    };
+    const noon = buildListRoutesResponse(config, new Date("2026-03-04T12:00:00Z")).incoming as any[];
+    const night = buildListRoutesResponse(config, new Date("2026-03-04T23:00:00Z")).incoming as any[];
+
+    expect(noon[0].active).toBe(true);
+    expect(noon[0].schedule).toEqual({ timezone: "UTC", start: "09:00", end: "17:00" });
+    expect(night[0].active).toBe(false);
+    expect(night[1].active).toBe(true);
+    expect(night[1].schedule).toBeNull();
+  });
+});
+
 describe("buildRoutingStatsResponse", () => {
   const baseStats: RoutingStats = {
     messagesRouted: 0,
     routeHits: {},
     errors: 0,
+    timeouts: 0,
     outgoingRouted: 0,
+    retries: 0,
+    retrySucceeded: 0,
+    retryExhausted: 0,
+    rateLimitDropped: 0,
+    rateLimitQueued: 0,
+    rateLimitSampled: 0,
+    rateLimitOverflows: {},
+    duplicatesSuppressed: 0,
+    loopsRejected: 0,
+    circuitRejected: 0,
+    failovers: 0,
+    gathersCompleted: 0,
+    gatherTimeouts: 0,
+    digestsDelivered: 0,
+    messagesDigested: 0,
+    deliveriesDelayed: 0,
+    strategySelections: {},
     startedAt: Date.now(),
   };
 
@@ -156,7 +243,25 @@ describe("buildRoutingStatsResponse", () => {
       messagesRouted: 10,
       outgoingRouted: 5,
       errors: 2,
+      timeouts: 3,
       routeHits: { "a->b": 7, "a->c": 3 },
+      retries: 0,
+      retrySucceeded: 0,
+      retryExhausted: 0,
+      rateLimitDropped: 0,
+      rateLimitQueued: 0,
+      rateLimitSampled: 0,
+      rateLimitOverflows: {},
+      duplicatesSuppressed: 4,
+      loopsRejected: 1,
+      circuitRejected: 2,
+      failovers: 5,
+      gathersCompleted: 0,
+      gatherTimeouts: 0,
+      digestsDelivered: 0,
+      messagesDigested: 0,
+      deliveriesDelayed: 6,
+      strategySelections: {},
       startedAt: Date.now() - 60000,
     };
     const result = buildRoutingStatsResponse(stats);
@@ -165,6 +270,54 @@ describe("buildRoutingStatsResponse", () => {
     expect(messages.outgoingRouted).toBe(5);
     expect(messages.total).toBe(15);
     expect(messages.errors).toBe(2);
+    expect(messages.timeouts).toBe(3);
+    expect(messages.duplicatesSuppressed).toBe(4);
+    expect(messages.loopsRejected).toBe(1);
+    expect(messages.circuitRejected).toBe(2);
+    expect(messages.failovers).toBe(5);
+    expect(messages.delayed).toBe(6);
+  });
+
+  it("should report retry counters", () => {
+    const result = buildRoutingStatsResponse({ ...baseStats, retries: 4, retrySucceeded: 1, retryExhausted: 1 });
+    expect(result.retries).toEqual({ attempts: 4, succeeded: 1, exhausted: 1 });
+  });
+
+  it("should report rate limit overflow", () => {
+    const result = buildRoutingStatsResponse({
+      ...baseStats,
+      rateLimitDropped: 3,
+      rateLimitQueued: 2,
+      rateLimitSampled: 1,
+      rateLimitOverflows: { "session:billing": 6 },
+    });
+    expect(result.rateLimits).toEqual({
+      dropped: 3,
+      queued: 2,
+      sampled: 1,
+      overflows: [{ limit: "session:billing", count: 6 }],
+    });
+  });
+
+  it("should list strategy selections per route and target", () => {
+    const result = buildRoutingStatsResponse({
+      ...baseStats,
+      strategySelections: { "route:workers": { "worker-1": 3, "worker-2": 2 } },
+    });
+    expect(result.selections).toEqual([
+      { route: "route:workers", target: "worker-1", count: 3 },
+      { route: "route:workers", target: "worker-2", count: 2 },
+    ]);
+  });
+
+  it("should report digest counters", () => {
+    const result = buildRoutingStatsResponse({ ...baseStats, digestsDelivered: 2, messagesDigested: 40 });
+    expect(result.digests).toEqual({ delivered: 2, messages: 40 });
+  });
+
+  it("should report scatter-gather counters", () => {
+    const result = buildRoutingStatsResponse({ ...baseStats, gathersCompleted: 3, gatherTimeouts: 1 });
+    expect(result.gathers).toEqual({ completed: 3, timeouts: 1 });
   });
 
   it("should format routeHits as array of {route, count}", () => {
@@ -232,3 +385,86 @@ describe("buildRoutingStatsResponse", () => {
     expect(uptime.human).toMatch(/^\d+d \d+h$/);
   });
 });
+
+describe("buildDeadLettersResponse", () => {
+  const entry = {
+    id: "1",
+    direction: "incoming" as const,
+    source: "a",
+    target: "b",
+    payload: "hello",
+    error: "Error: busy",
+    attempts: 2,
+    failedAt: "2026-03-02T10:00:00.000Z",
+    lastFailedAt: "2026-03-02T10:00:00.000Z",
+    replays: 0,
+  };
+
+  it("should list entries newest first without their payload", () => {
+    const result = buildDeadLettersResponse([entry, { ...entry, id: "2" }]);
+    expect(result.count).toBe(2);
+    const entries = result.entries as any[];
+    expect(entries.map((e) => e.id)).toEqual(["2", "1"]);
+    expect(entries[0].payload).toBeUndefined();
+    expect(entries[0].preview).toBe("hello");
+    expect(entries[0].route).toBeNull();
+  });
+
+  it("should truncate long payload previews", () => {
+    const result = buildDeadLettersResponse([{ ...entry, payload: "x".repeat(200) }]);
+    const preview = (result.entries as any[])[0].preview;
+    expect(preview).toHaveLength(81);
+    expect(preview.endsWith("…")).toBe(true);
+  });
+});
+
+describe("buildDelayedDeliveriesResponse", () => {
+  it("should list entries with their due time and a payload preview", () => {
+    const result = buildDelayedDeliveriesResponse([
+      {
+        id: "1",
+        direction: "outgoing",
+        route: "digest",
+        source: "a",
+        target: "slack:ops",
+        channel: { type: "slack", id: "ops" },
+        payload: "y".repeat(100),
+        queuedAt: "2026-03-02T10:00:00.000Z",
+        dueAt: "2026-03-02T11:00:00.000Z",
+      },
+    ]);
+    expect(result.count).toBe(1);
+    const [entry] = result.entries as any[];
+    expect(entry).toMatchObject({ id: "1", route: "digest", target: "slack:ops", dueAt: "2026-03-02T11:00:00.000Z" });
+    expect(entry.payload).toBeUndefined();
+    expect(entry.preview).toHaveLength(81);
+  });
+});
+
+describe("buildAffinityResponse", () => {
+  it("should list entries with ISO times", () => {
+    const result = buildAffinityResponse([
+      { route: "route:workers", value: "general", target: "w2", createdAt: 0, lastUsedAt: 1000, expiresAt: 61_000 },
+      { route: "route:workers", value: "random", target: "w1", createdAt: 0, lastUsedAt: 0, expiresAt: null },
+    ]);
+    expect(result.count).toBe(2);
+    expect(result.entries).toEqual([
+      {
+        route: "route:workers",
+        value: "general",
+        target: "w2",
+        createdAt: "1970-01-01T00:00:00.000Z",
+        lastUsedAt: "1970-01-01T00:00:01.000Z",
+        expiresAt: "1970-01-01T00:01:01.000Z",
+      },
+      {
+        route: "route:workers",
+        value: "random",
+        target: "w1",
+        createdAt: "1970-01-01T00:00:00.000Z",
+        lastUsedAt: "1970-01-01T00:00:00.000Z",
+        expiresAt: null,
+      },
+    ]);
+  });
+});